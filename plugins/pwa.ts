@@ -0,0 +1,165 @@
+import { createHash } from 'node:crypto';
+import { createReadStream, existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join, relative, resolve, sep } from 'node:path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+// ─── Offline build support ───
+// mediapipeAssets: serves the @mediapipe/pose model and WASM, and the Tasks WASM and
+// pose landmarker model, from our own origin (dev middleware, emitted files in the
+// build) instead of cdn.jsdelivr.net and storage.googleapis.com.
+// serviceWorker: builds src/sw/serviceWorker.ts to /sw.js and injects the list of
+// files it precaches, so a second launch works with no network at all.
+
+// Must match src/lib/poseAssets.ts
+const POSE_ASSET_PATH = 'mediapipe/pose';
+const TASKS_ASSET_PATH = 'mediapipe/tasks';
+// One per performance tier model (src/lib/performanceTier.ts)
+const POSE_MODELS = ['lite', 'full', 'heavy'];
+
+const POSE_PACKAGE_DIR = resolve('node_modules/@mediapipe/pose');
+const TASKS_WASM_DIR = resolve('node_modules/@mediapipe/tasks-vision/wasm');
+// The pose worker is an ES module, so only the module build of the loader is needed
+const TASKS_WASM_FILES = ['vision_wasm_module_internal.js', 'vision_wasm_module_internal.wasm'];
+
+// The .task models aren't on npm; they're downloaded once and kept next to the other caches.
+// Pinned to a model version rather than `latest`, so every build ships the same files.
+const MODEL_CACHE_DIR = resolve('node_modules/.cache/mediapipe');
+const POSE_MODEL_VERSION = 1;
+const poseModelFile = (model: string) => `pose_landmarker_${model}.task`;
+const poseModelUrl = (model: string) =>
+    `https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_${model}/float16/${POSE_MODEL_VERSION}/${poseModelFile(model)}`;
+
+// pose.js is bundled as a module; the heavy model (27 MB) is never requested
+// at modelComplexity ≤ 1, so it isn't shipped.
+const POSE_ASSET_PATTERN = /\.(wasm|data|tflite|binarypb)$|_(loader|bin)\.js$/;
+const POSE_ASSET_EXCLUDE = /heavy/;
+
+const poseAssetFiles = () =>
+    readdirSync(POSE_PACKAGE_DIR).filter(f => POSE_ASSET_PATTERN.test(f) && !POSE_ASSET_EXCLUDE.test(f));
+
+// Public path → file on disk, for everything served under /mediapipe
+const assetFiles = () => new Map<string, string>([
+    ...poseAssetFiles().map((f): [string, string] => [`${POSE_ASSET_PATH}/${f}`, join(POSE_PACKAGE_DIR, f)]),
+    ...TASKS_WASM_FILES.map((f): [string, string] => [`${TASKS_ASSET_PATH}/${f}`, join(TASKS_WASM_DIR, f)]),
+    ...POSE_MODELS.map(poseModelFile).filter(f => existsSync(join(MODEL_CACHE_DIR, f)))
+        .map((f): [string, string] => [`${TASKS_ASSET_PATH}/${f}`, join(MODEL_CACHE_DIR, f)]),
+]);
+
+// Reports each model it couldn't get. The dev server carries on (the app falls back to the
+// main-thread @mediapipe/pose pipeline); a build stops, since it would ship without them.
+const downloadPoseModels = (report: (message: string) => void) => Promise.all(POSE_MODELS.map(async model => {
+    const file = join(MODEL_CACHE_DIR, poseModelFile(model));
+    if (existsSync(file)) return;
+    try {
+        const response = await fetch(poseModelUrl(model), { signal: AbortSignal.timeout(120_000) });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        mkdirSync(MODEL_CACHE_DIR, { recursive: true });
+        writeFileSync(file, new Uint8Array(await response.arrayBuffer()));
+    } catch (err) {
+        report(`Couldn't download ${poseModelFile(model)} (${err instanceof Error ? err.message : String(err)}); `
+            + `the pose worker can't use that model. Place it at ${file} to fix.`);
+    }
+}));
+
+const contentType = (file: string) => file.endsWith('.wasm') ? 'application/wasm'
+    : file.endsWith('.js') ? 'text/javascript' : 'application/octet-stream';
+
+export const mediapipeAssets = (): Plugin => {
+    let config: ResolvedConfig;
+    return {
+        name: 'mediapipe-assets',
+        configResolved(resolved) {
+            config = resolved;
+        },
+        configureServer(server) {
+            void downloadPoseModels(message => server.config.logger.warn(message));
+            server.middlewares.use('/mediapipe', (req, res, next) => {
+                const path = `mediapipe/${decodeURIComponent((req.url ?? '').split('?')[0].replace(/^\//, ''))}`;
+                const file = assetFiles().get(path);
+                if (!file) return next();
+                res.setHeader('Content-Type', contentType(file));
+                createReadStream(file).pipe(res);
+            });
+        },
+        async buildStart() {
+            if (config.command !== 'build') return;
+            const missing: string[] = [];
+            await downloadPoseModels(message => missing.push(message));
+            if (missing.length > 0) this.error(missing.join('\n'));
+            for (const [fileName, file] of assetFiles()) {
+                this.emitFile({ type: 'asset', fileName, source: readFileSync(file) });
+            }
+        },
+    };
+};
+
+const SW_ENTRY = 'src/sw/serviceWorker.ts';
+const SW_CHUNK = 'sw';
+const MANIFEST_PLACEHOLDER = '__PRECACHE_MANIFEST__';
+const VERSION_PLACEHOLDER = '__CACHE_VERSION__';
+// Only fast devices reach the heavy model, so it's left to the service worker's runtime
+// cache rather than downloaded by every install. The legacy @mediapipe/pose assets are
+// precached: devices on the main-thread fallback never fetch the worker's models, and
+// would otherwise have nothing to run offline.
+const PRECACHE_EXCLUDE = /_heavy\.task$/;
+
+// Everything Vite copies verbatim from public/, as paths relative to the site root
+const listPublicFiles = (dir: string): string[] => {
+    if (!dir || !existsSync(dir)) return [];
+    const walk = (d: string): string[] => readdirSync(d).flatMap(name => {
+        const path = join(d, name);
+        return statSync(path).isDirectory() ? walk(path) : [relative(dir, path).split(sep).join('/')];
+    });
+    return walk(dir);
+};
+
+export const serviceWorker = (): Plugin => {
+    let config: ResolvedConfig;
+    return {
+        name: 'service-worker',
+        apply: 'build',
+        config: () => ({
+            build: {
+                rollupOptions: {
+                    input: { main: resolve('index.html'), [SW_CHUNK]: resolve(SW_ENTRY) },
+                    output: {
+                        // The worker must sit at the root so its scope covers the whole app
+                        entryFileNames: chunk => (chunk.name === SW_CHUNK ? 'sw.js' : 'assets/[name]-[hash].js'),
+                    },
+                },
+            },
+        }),
+        configResolved(resolved) {
+            config = resolved;
+        },
+        generateBundle: {
+            // After Vite's own HTML plugin, which only adds index.html to the bundle in
+            // its generateBundle; without it the worker has no app shell to fall back to
+            order: 'post',
+            handler(_options, bundle) {
+                const sw = Object.values(bundle).find(c => c.type === 'chunk' && c.name === SW_CHUNK);
+                if (!sw || sw.type !== 'chunk') return;
+                if (!bundle['index.html']) this.error('index.html missing from the bundle; the service worker needs it offline');
+
+                const contents = new Map<string, string | Uint8Array>();
+                for (const [fileName, output] of Object.entries(bundle)) {
+                    if (fileName === sw.fileName || fileName.endsWith('.map') || PRECACHE_EXCLUDE.test(fileName)) continue;
+                    contents.set(fileName, output.type === 'chunk' ? output.code : output.source);
+                }
+                for (const file of listPublicFiles(config.publicDir)) {
+                    contents.set(file, readFileSync(join(config.publicDir, file)));
+                }
+                const files = [...contents.keys()].sort();
+
+                // A new cache whenever any precached byte changes, e.g. a replaced image in public/
+                const hash = createHash('sha256');
+                for (const file of files) hash.update(file).update(contents.get(file)!);
+                const version = hash.digest('hex').slice(0, 12);
+
+                sw.code = sw.code
+                    .replace(MANIFEST_PLACEHOLDER, JSON.stringify(files))
+                    .replace(VERSION_PLACEHOLDER, JSON.stringify(version));
+            },
+        },
+    };
+};
@@ -0,0 +1,18 @@
+import { signInitData } from './initData';
+
+// Prints initData signed with BOT_TOKEN for a made-up user, for poking the API locally:
+//
+//   BOT_TOKEN=123:fake npm run server:init-data
+//   curl -H "Authorization: tma $(BOT_TOKEN=123:fake npm run -s server:init-data)" localhost:8787/api/workouts
+
+const botToken = process.env.BOT_TOKEN ?? '123:fake';
+const userId = Number(process.env.FAKE_USER_ID ?? 424242);
+
+const initData = signInitData({
+    auth_date: String(Math.floor(Date.now() / 1000)),
+    query_id: 'AAfake',
+    user: JSON.stringify({ id: userId, first_name: process.env.FAKE_USER_NAME ?? 'Tester', language_code: 'en' }),
+    ...(process.env.FAKE_CHAT_INSTANCE ? { chat_instance: process.env.FAKE_CHAT_INSTANCE } : {}),
+}, botToken);
+
+console.log(initData);
@@ -0,0 +1,186 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { isExerciseType } from '../src/lib/exercises';
+import { rankLeaderboard } from '../src/lib/leaderboard';
+import { chatScope, InitDataError, verifyInitData, type VerifiedInitData } from './initData';
+import { createFileStore, parseSubmission, type WorkoutStore } from './store';
+import { createMediaStore, type MediaStore } from './media';
+
+// ─── AI Push-Up Pro API ───
+// Every /api/workouts request carries the Mini App's raw initData in
+// `Authorization: tma <initData>`; the user id comes from that, never the body.
+
+export interface ServerConfig {
+    botToken: string;
+    port: number;
+    dataFile: string;
+    initDataMaxAgeSec: number;
+    mediaDir: string;
+    publicUrl: string;          // Where this server is reachable from Telegram, for story media URLs
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_MEDIA_BYTES = 8 * 1024 * 1024;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage, maxBytes: number) => new Promise<Buffer>((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+            reject(new Error('Body too large'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+    const body = await readBody(req, MAX_BODY_BYTES);
+    try {
+        return JSON.parse(body.toString('utf8') || 'null');
+    } catch {
+        throw new Error('Invalid JSON');
+    }
+};
+
+const authenticate = (req: IncomingMessage, config: ServerConfig): VerifiedInitData => {
+    const header = req.headers.authorization ?? '';
+    if (!header.startsWith('tma ')) throw new InitDataError('Missing Authorization: tma <initData>');
+    return verifyInitData(header.slice(4), config.botToken, config.initDataMaxAgeSec);
+};
+
+export const createApp = (config: ServerConfig, store: WorkoutStore, media: MediaStore) =>
+    async (req: IncomingMessage, res: ServerResponse) => {
+        // The Mini App is served from a different origin than the API
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204);
+            res.end();
+            return;
+        }
+
+        const url = new URL(req.url ?? '/', 'http://localhost');
+
+        try {
+            if (url.pathname === '/api/health') {
+                sendJson(res, 200, { ok: true });
+                return;
+            }
+
+            if (url.pathname === '/api/workouts') {
+                const auth = authenticate(req, config);
+
+                if (req.method === 'GET') {
+                    const since = url.searchParams.get('since') ?? undefined;
+                    sendJson(res, 200, { workouts: store.listByUser(auth.user.id, since) });
+                    return;
+                }
+
+                if (req.method === 'POST') {
+                    const submission = parseSubmission(await readJson(req));
+                    if (!submission) {
+                        sendJson(res, 400, { error: 'Invalid workout' });
+                        return;
+                    }
+                    const created = store.add({
+                        ...submission,
+                        userId: auth.user.id,
+                        userName: auth.user.first_name,
+                        chatScope: chatScope(auth),
+                        receivedAt: new Date().toISOString(),
+                    });
+                    // Re-sending the same workout is fine — sync retries rely on it
+                    sendJson(res, created ? 201 : 200, { ok: true, duplicate: !created });
+                    return;
+                }
+
+                sendJson(res, 405, { error: 'Method not allowed' });
+                return;
+            }
+
+            // Share cards for Telegram stories: uploaded with initData, fetched by Telegram without it
+            if (url.pathname === '/api/story-media' && req.method === 'POST') {
+                authenticate(req, config);
+                const id = media.save(await readBody(req, MAX_MEDIA_BYTES));
+                if (!id) {
+                    sendJson(res, 400, { error: 'Expected a PNG image' });
+                    return;
+                }
+                sendJson(res, 201, { url: `${config.publicUrl}/media/${id}.png` });
+                return;
+            }
+
+            const mediaMatch = /^\/media\/([^/]+)\.png$/.exec(url.pathname);
+            if (mediaMatch && req.method === 'GET') {
+                const data = media.read(mediaMatch[1]);
+                if (!data) {
+                    sendJson(res, 404, { error: 'Not found' });
+                    return;
+                }
+                res.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'public, max-age=86400' });
+                res.end(data);
+                return;
+            }
+
+            if (url.pathname === '/api/leaderboard' && req.method === 'GET') {
+                const auth = authenticate(req, config);
+                const exercise = url.searchParams.get('exercise');
+                if (!isExerciseType(exercise)) {
+                    sendJson(res, 400, { error: 'Unknown exercise' });
+                    return;
+                }
+                // Opened outside a chat — there's no group to rank against
+                const scope = chatScope(auth);
+                if (!scope) {
+                    sendJson(res, 200, { scoped: false, ...rankLeaderboard([], exercise, auth.user.id) });
+                    return;
+                }
+                // The client sends the start of its local day/week, so "today" means the user's today
+                const since = url.searchParams.get('since') ?? undefined;
+                const workouts = store.listByChat(scope, since);
+                sendJson(res, 200, { scoped: true, ...rankLeaderboard(workouts, exercise, auth.user.id) });
+                return;
+            }
+
+            sendJson(res, 404, { error: 'Not found' });
+        } catch (err: unknown) {
+            if (err instanceof InitDataError) {
+                sendJson(res, 401, { error: err.message });
+            } else {
+                const msg = err instanceof Error ? err.message : String(err);
+                sendJson(res, 400, { error: msg });
+            }
+        }
+    };
+
+const loadConfig = (): ServerConfig => {
+    const botToken = process.env.BOT_TOKEN;
+    if (!botToken) {
+        throw new Error('BOT_TOKEN is required (use any string, e.g. "123:fake", for local testing)');
+    }
+    const port = Number(process.env.PORT ?? 8787);
+    return {
+        botToken,
+        port,
+        dataFile: process.env.DATA_FILE ?? 'server/data/workouts.json',
+        initDataMaxAgeSec: Number(process.env.INIT_DATA_MAX_AGE_SEC ?? 24 * 60 * 60),
+        mediaDir: process.env.MEDIA_DIR ?? 'server/data/media',
+        publicUrl: (process.env.PUBLIC_URL ?? `http://localhost:${port}`).replace(/\/$/, ''),
+    };
+};
+
+const config = loadConfig();
+const server = createServer(createApp(config, createFileStore(config.dataFile), createMediaStore(config.mediaDir)));
+server.listen(config.port, () => {
+    console.log(`API listening on http://localhost:${config.port}`);
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { InitDataError, signInitData, verifyInitData } from './initData';
+
+const BOT_TOKEN = '123:fake';
+const NOW = Date.UTC(2026, 0, 15, 12);
+const nowSec = Math.floor(NOW / 1000);
+const user = { id: 424242, first_name: 'Tester' };
+
+const fields = (overrides: Record<string, string> = {}) => ({
+    auth_date: String(nowSec - 60),
+    query_id: 'AAfake',
+    user: JSON.stringify(user),
+    chat_instance: '-42',
+    ...overrides,
+});
+
+const verify = (initData: string) => verifyInitData(initData, BOT_TOKEN, 24 * 60 * 60, NOW);
+
+describe('verifyInitData', () => {
+    it('accepts initData signed with the bot token', () => {
+        expect(verify(signInitData(fields(), BOT_TOKEN))).toEqual({
+            user,
+            authDate: nowSec - 60,
+            chatInstance: '-42',
+            startParam: undefined,
+        });
+    });
+
+    it('rejects initData signed with another token', () => {
+        expect(() => verify(signInitData(fields(), '456:other'))).toThrow('initData signature is invalid');
+    });
+
+    it('rejects a tampered field', () => {
+        const params = new URLSearchParams(signInitData(fields(), BOT_TOKEN));
+        params.set('user', JSON.stringify({ ...user, id: 1 }));
+        expect(() => verify(params.toString())).toThrow('initData signature is invalid');
+    });
+
+    it('rejects a malformed hash', () => {
+        const params = new URLSearchParams(signInitData(fields(), BOT_TOKEN));
+        params.set('hash', 'zz' + params.get('hash')!.slice(2));
+        expect(() => verify(params.toString())).toThrow('initData has no valid hash');
+
+        params.delete('hash');
+        expect(() => verify(params.toString())).toThrow('initData has no valid hash');
+    });
+
+    it('rejects an expired auth_date', () => {
+        const initData = signInitData(fields({ auth_date: String(nowSec - 25 * 60 * 60) }), BOT_TOKEN);
+        expect(() => verify(initData)).toThrow('initData has expired');
+    });
+
+    it('rejects an auth_date in the future', () => {
+        const initData = signInitData(fields({ auth_date: String(nowSec + 60 * 60) }), BOT_TOKEN);
+        expect(() => verify(initData)).toThrow('initData is dated in the future');
+    });
+
+    it('rejects initData without a user', () => {
+        const noUser: Record<string, string> = fields();
+        delete noUser.user;
+        expect(() => verify(signInitData(noUser, BOT_TOKEN))).toThrow('initData has no user');
+        expect(() => verify(signInitData(fields({ user: '{"first_name":"Tester"}' }), BOT_TOKEN))).toThrow(InitDataError);
+    });
+});
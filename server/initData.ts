@@ -0,0 +1,99 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// ─── Telegram Mini App initData verification ───
+// https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+
+export interface TelegramUser {
+    id: number;
+    first_name: string;
+    last_name?: string;
+    username?: string;
+    language_code?: string;
+}
+
+export interface VerifiedInitData {
+    user: TelegramUser;
+    authDate: number;           // Unix seconds
+    chatInstance?: string;
+    startParam?: string;
+}
+
+export class InitDataError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InitDataError';
+    }
+}
+
+// Telegram's clock and ours may disagree slightly; anything further ahead is forged
+const MAX_CLOCK_SKEW_SEC = 60;
+
+const secretKey = (botToken: string) => createHmac('sha256', 'WebAppData').update(botToken).digest();
+
+// Every field except `hash`, sorted by key as plain code units (not localeCompare,
+// which depends on the server locale), as key=value lines
+const dataCheckString = (params: URLSearchParams) =>
+    [...params.entries()]
+        .filter(([key]) => key !== 'hash')
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, value]) => `${key}=${value}`)
+        .join('\n');
+
+const sign = (params: URLSearchParams, botToken: string) =>
+    createHmac('sha256', secretKey(botToken)).update(dataCheckString(params)).digest('hex');
+
+export const verifyInitData = (
+    initData: string,
+    botToken: string,
+    maxAgeSec = 24 * 60 * 60,
+    now = Date.now(),
+): VerifiedInitData => {
+    const params = new URLSearchParams(initData);
+    const hash = params.get('hash');
+    // Buffer.from(…, 'hex') silently drops bad digits, so check the shape first
+    if (!hash || !/^[0-9a-f]{64}$/i.test(hash)) throw new InitDataError('initData has no valid hash');
+
+    const expected = Buffer.from(sign(params, botToken), 'hex');
+    const actual = Buffer.from(hash, 'hex');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        throw new InitDataError('initData signature is invalid');
+    }
+
+    const authDate = Number(params.get('auth_date'));
+    if (!Number.isFinite(authDate) || now / 1000 - authDate > maxAgeSec) {
+        throw new InitDataError('initData has expired');
+    }
+    if (authDate - now / 1000 > MAX_CLOCK_SKEW_SEC) {
+        throw new InitDataError('initData is dated in the future');
+    }
+
+    let user: TelegramUser;
+    try {
+        user = JSON.parse(params.get('user') ?? '');
+    } catch {
+        throw new InitDataError('initData has no user');
+    }
+    if (typeof user?.id !== 'number') throw new InitDataError('initData has no user');
+
+    return {
+        user,
+        authDate,
+        chatInstance: params.get('chat_instance') ?? undefined,
+        startParam: params.get('start_param') ?? undefined,
+    };
+};
+
+// Which chat's leaderboard this session belongs to: Telegram's chat_instance when the
+// app was opened from a chat, else the startapp parameter of a shared group link
+export const chatScope = (data: VerifiedInitData): string | undefined => {
+    if (data.chatInstance) return data.chatInstance;
+    if (data.startParam) return `start:${data.startParam}`;
+    return undefined;
+};
+
+// Builds initData the way Telegram does — for local testing with a fake bot token
+export const signInitData = (fields: Record<string, string>, botToken: string): string => {
+    const params = new URLSearchParams(fields);
+    params.set('hash', sign(params, botToken));
+    return params.toString();
+};
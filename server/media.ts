@@ -0,0 +1,46 @@
+import { randomBytes } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+// ─── Story media ───
+// Telegram's shareToStory only takes a public https URL, so share cards are uploaded
+// here first and served back under /media/<id>.png. A story only needs the image long
+// enough for Telegram to fetch it; files are pruned after MEDIA_TTL_MS.
+
+const MEDIA_TTL_MS = 24 * 60 * 60 * 1000;
+const ID_PATTERN = /^[a-f0-9]{32}$/;
+
+const isPng = (data: Buffer) => data.length > 8 && data[0] === 0x89 && data.subarray(1, 4).toString('ascii') === 'PNG';
+
+export interface MediaStore {
+    // Returns the new id, or null if the data isn't a PNG
+    save: (data: Buffer) => string | null;
+    read: (id: string) => Buffer | null;
+}
+
+export const createMediaStore = (dir: string): MediaStore => {
+    const fileOf = (id: string) => join(dir, `${id}.png`);
+
+    const prune = () => {
+        const cutoff = Date.now() - MEDIA_TTL_MS;
+        readdirSync(dir).forEach(name => {
+            const path = join(dir, name);
+            if (statSync(path).mtimeMs < cutoff) unlinkSync(path);
+        });
+    };
+
+    return {
+        save: (data) => {
+            if (!isPng(data)) return null;
+            mkdirSync(dir, { recursive: true });
+            prune();
+            const id = randomBytes(16).toString('hex');
+            writeFileSync(fileOf(id), data);
+            return id;
+        },
+        read: (id) => {
+            if (!ID_PATTERN.test(id) || !existsSync(fileOf(id))) return null;
+            return readFileSync(fileOf(id));
+        },
+    };
+};
@@ -0,0 +1,86 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { isExerciseType, type ExerciseType } from '../src/lib/exercises';
+
+// ─── Server-side workout storage ───
+// One JSON file, loaded into memory at start and rewritten atomically on change.
+// Plenty for a team-sized bot; swap createFileStore for a database later.
+
+export interface StoredWorkout {
+    userId: number;
+    userName: string;
+    exercise: ExerciseType;
+    count: number;
+    durationSec: number;
+    date: string;
+    holdSec?: number;
+    noReps?: number;
+    formScores?: number[];
+    suspiciousReps?: number;
+    trustScore?: number;        // 0–100, see repVerifier.ts
+    chatScope?: string;         // See chatScope() in initData.ts
+    receivedAt: string;
+}
+
+export interface WorkoutStore {
+    // Returns false if the user already has a workout with the same date
+    add: (workout: StoredWorkout) => boolean;
+    listByUser: (userId: number, since?: string) => StoredWorkout[];
+    listByChat: (chatScope: string, since?: string) => StoredWorkout[];
+    all: () => StoredWorkout[];
+}
+
+export const createFileStore = (file: string): WorkoutStore => {
+    let workouts: StoredWorkout[] = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : [];
+    const keys = new Set(workouts.map(w => `${w.userId}|${w.date}`));
+
+    const persist = () => {
+        mkdirSync(dirname(file), { recursive: true });
+        const tmp = `${file}.tmp`;
+        writeFileSync(tmp, JSON.stringify(workouts));
+        renameSync(tmp, file);
+    };
+
+    return {
+        add: (workout) => {
+            const key = `${workout.userId}|${workout.date}`;
+            if (keys.has(key)) return false;
+            keys.add(key);
+            workouts = [...workouts, workout];
+            persist();
+            return true;
+        },
+        listByUser: (userId, since) => workouts
+            .filter(w => w.userId === userId && (!since || w.date > since))
+            .sort((a, b) => b.date.localeCompare(a.date)),
+        listByChat: (chatScope, since) => workouts
+            .filter(w => w.chatScope === chatScope && (!since || w.date >= since)),
+        all: () => workouts,
+    };
+};
+
+const isNonNegative = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+
+// Client-supplied fields only — identity comes from verified initData, never the body
+export const parseSubmission = (
+    body: unknown,
+): Omit<StoredWorkout, 'userId' | 'userName' | 'chatScope' | 'receivedAt'> | null => {
+    if (!body || typeof body !== 'object') return null;
+    const b = body as Record<string, unknown>;
+
+    if (typeof b.date !== 'string' || Number.isNaN(Date.parse(b.date))) return null;
+    if (!isExerciseType(b.exercise)) return null;
+    if (!isNonNegative(b.count) || !isNonNegative(b.durationSec)) return null;
+
+    return {
+        exercise: b.exercise,
+        count: b.count,
+        durationSec: b.durationSec,
+        date: new Date(b.date).toISOString(),
+        ...(isNonNegative(b.holdSec) ? { holdSec: b.holdSec } : {}),
+        ...(isNonNegative(b.noReps) ? { noReps: b.noReps } : {}),
+        ...(Array.isArray(b.formScores) && b.formScores.every(isNonNegative) ? { formScores: b.formScores } : {}),
+        ...(isNonNegative(b.suspiciousReps) ? { suspiciousReps: b.suspiciousReps } : {}),
+        ...(isNonNegative(b.trustScore) && b.trustScore <= 100 ? { trustScore: b.trustScore } : {}),
+    };
+};
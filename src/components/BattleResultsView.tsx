@@ -0,0 +1,100 @@
+import { getExercise } from '../lib/exercises';
+import type { NewWorkoutRecord } from '../lib/history';
+import { averageFormScore } from '../lib/formScore';
+import { PLAYER_COLORS } from '../lib/poseSession';
+import { theme, useBackButton } from '../lib/telegram';
+import { formatDuration, t } from '../lib/i18n';
+
+const HEADLINES = { won: 'battle.won', lost: 'battle.lost', draw: 'battle.draw' } as const;
+
+// The winner screen after a battle, shown before the device user's own results.
+// Both records carry the same battle link; `you` is player 0.
+export const BattleResultsView: React.FC<{
+    you: NewWorkoutRecord;
+    rival: NewWorkoutRecord;
+    onContinue: () => void;
+}> = ({ you, rival, onContinue }) => {
+    useBackButton(onContinue);
+    const def = getExercise(you.exercise);
+    const isHold = def.kind === 'hold';
+    const result = you.battle?.result ?? 'draw';
+
+    const column = (record: NewWorkoutRecord, player: 0 | 1) => {
+        const color = PLAYER_COLORS[player];
+        const avgForm = averageFormScore(record.formScores);
+        const winner = record.battle?.result === 'won';
+        return (
+            <div style={{
+                flex: 1, textAlign: 'center', padding: '16px 8px', borderRadius: 16,
+                background: winner ? 'rgba(251,191,36,0.12)' : 'rgba(255,255,255,0.05)',
+                border: winner ? '2px solid #fbbf24' : '2px solid transparent',
+            }}>
+                <div style={{ color, fontSize: 14, fontWeight: 800, textTransform: 'uppercase' }}>
+                    {winner ? '👑 ' : ''}{t(player === 0 ? 'battle.you' : 'battle.rival')}
+                </div>
+                <div style={{
+                    color, fontSize: 72, fontWeight: 900, lineHeight: 1.1,
+                    textShadow: `0 0 24px ${color}`,
+                }}>
+                    {isHold ? formatDuration(record.holdSec ?? 0) : record.count}
+                </div>
+                <div style={{ color: theme.hint, fontSize: 13 }}>
+                    {t(def.shareLabel, { count: record.count })}
+                </div>
+                {avgForm !== null && (
+                    <div style={{ color: theme.text, fontSize: 13, marginTop: 6 }}>
+                        {t('results.form')}: {avgForm}%
+                    </div>
+                )}
+                {(record.noReps ?? 0) > 0 && (
+                    <div style={{ color: '#f87171', fontSize: 12, marginTop: 2 }}>
+                        {t('results.noReps', { count: record.noReps ?? 0 })}
+                    </div>
+                )}
+                {(record.suspiciousReps ?? 0) > 0 && (
+                    <div style={{ color: '#fbbf24', fontSize: 12, marginTop: 2 }}>
+                        {t('results.suspicious', { count: record.suspiciousReps ?? 0 })}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div style={{
+            position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+            background: `linear-gradient(180deg, ${theme.bg} 0%, ${theme.bgSecondary} 100%)`,
+            display: 'flex', flexDirection: 'column', alignItems: 'center',
+            justifyContent: 'center', fontFamily: 'system-ui, sans-serif',
+            padding: 24, overflow: 'auto',
+        }}>
+            <h2 style={{ color: theme.hint, fontSize: 16, margin: '0 0 8px', fontWeight: 800, letterSpacing: 2 }}>
+                {t('battle.title')}
+            </h2>
+            <div style={{ color: '#fbbf24', fontSize: 36, fontWeight: 900, margin: '0 0 20px', textAlign: 'center' }}>
+                {t(HEADLINES[result])}
+            </div>
+
+            <div style={{ display: 'flex', gap: 12, width: '100%', maxWidth: 360, alignItems: 'stretch' }}>
+                {column(you, 0)}
+                {column(rival, 1)}
+            </div>
+
+            <p style={{ color: theme.hint, fontSize: 14, margin: '16px 0 0' }}>
+                {def.emoji} {formatDuration(you.durationSec)}
+            </p>
+
+            <button
+                onClick={onContinue}
+                style={{
+                    background: theme.accent, color: theme.accentText, fontWeight: 'bold',
+                    fontSize: 18, padding: '14px 36px', borderRadius: 50, marginTop: 24,
+                    border: 'none', cursor: 'pointer',
+                    boxShadow: '0 0 30px rgba(57,255,20,0.5)',
+                }}
+            >
+                {t('battle.continue')}
+            </button>
+        </div>
+    );
+};
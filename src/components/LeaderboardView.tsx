@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { EXERCISES, EXERCISE_IDS, type ExerciseType } from '../lib/exercises';
+import type { LeaderboardPeriod } from '../lib/leaderboard';
+import { fetchLeaderboard, isSyncEnabled, type ChatLeaderboard } from '../lib/sync';
+import { theme, useBackButton } from '../lib/telegram';
+import { formatDuration, t, type MessageKey } from '../lib/i18n';
+
+const PERIODS: { id: LeaderboardPeriod; label: MessageKey }[] = [
+    { id: 'day', label: 'leaderboard.today' },
+    { id: 'week', label: 'leaderboard.week' },
+    { id: 'all', label: 'leaderboard.allTime' },
+];
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+const card: React.CSSProperties = {
+    width: '100%', maxWidth: 360, margin: '8px 0',
+    background: 'rgba(255,255,255,0.05)', borderRadius: 12, padding: 12,
+    boxSizing: 'border-box',
+};
+
+const formatTotal = (total: number, isHold: boolean) => (isHold ? formatDuration(total) : `${total}`);
+
+export const LeaderboardView: React.FC<{
+    userId: number | null;
+    initialExercise: ExerciseType;
+    onBack: () => void;
+}> = ({ userId, initialExercise, onBack }) => {
+    const [exercise, setExercise] = useState<ExerciseType>(initialExercise);
+    const nativeBack = useBackButton(onBack);
+    const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+    // Tagged with the board it belongs to, so switching tabs shows "Loading…" until it arrives
+    const [result, setResult] = useState<{ key: string; board?: ChatLeaderboard; error?: string } | null>(null);
+    const enabled = isSyncEnabled();
+    const key = `${exercise}|${period}`;
+
+    useEffect(() => {
+        if (!enabled) return;
+        let cancelled = false;
+        fetchLeaderboard(exercise, period)
+            .then(board => { if (!cancelled) setResult({ key, board }); })
+            .catch((err: unknown) => {
+                if (!cancelled) setResult({ key, error: err instanceof Error ? err.message : String(err) });
+            });
+        return () => { cancelled = true; };
+    }, [enabled, exercise, period, key]);
+
+    const current = result?.key === key ? result : null;
+    const board = current?.board ?? null;
+    const error = current?.error ?? null;
+
+    const isHold = EXERCISES[exercise].kind === 'hold';
+
+    const message = (text: string) => (
+        <p style={{ color: theme.hint, fontSize: 14, textAlign: 'center', margin: '16px 0' }}>{text}</p>
+    );
+
+    const renderBoard = () => {
+        if (!enabled) return message(t('leaderboard.unavailable'));
+        if (error) return message(t('leaderboard.error', { message: error }));
+        if (!board) return message(t('leaderboard.loading'));
+        if (!board.scoped) return message(t('leaderboard.notScoped'));
+        if (board.entries.length === 0) return message(t('leaderboard.empty'));
+
+        return board.entries.map(e => {
+            const isMe = e.userId === userId;
+            return (
+                <div key={e.userId} style={{
+                    display: 'flex', alignItems: 'center', gap: 10,
+                    padding: '8px 6px', borderRadius: 8,
+                    background: isMe ? 'rgba(57,255,20,0.12)' : 'none',
+                    border: isMe ? '1px solid rgba(57,255,20,0.4)' : '1px solid transparent',
+                }}>
+                    <span style={{ width: 28, textAlign: 'center', color: theme.hint, fontWeight: 700 }}>
+                        {MEDALS[e.rank - 1] ?? e.rank}
+                    </span>
+                    <span style={{ flex: 1, color: isMe ? theme.accent : theme.text, fontWeight: isMe ? 700 : 400 }}>
+                        {isMe ? t('leaderboard.you', { name: e.userName }) : e.userName}
+                    </span>
+                    <span style={{ color: theme.text, fontWeight: 700 }}>{formatTotal(e.total, isHold)}</span>
+                </div>
+            );
+        });
+    };
+
+    const me = board?.scoped ? board.me : null;
+
+    return (
+        <div style={{
+            position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+            background: `linear-gradient(180deg, ${theme.bg} 0%, ${theme.bgSecondary} 100%)`,
+            display: 'flex', flexDirection: 'column', alignItems: 'center',
+            fontFamily: 'system-ui, sans-serif',
+            padding: 20, overflow: 'auto', boxSizing: 'border-box',
+        }}>
+            <div style={{ width: '100%', maxWidth: 360, display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+                {nativeBack ? <span style={{ width: 48 }} /> : (
+                    <button
+                        onClick={onBack}
+                        style={{ background: 'none', border: 'none', color: theme.hint, fontSize: 16, cursor: 'pointer', padding: 0 }}
+                    >
+                        {t('app.back')}
+                    </button>
+                )}
+                <h2 style={{ color: theme.accent, fontSize: 20, margin: '0 auto', fontWeight: 800 }}>
+                    {t('leaderboard.title')}
+                </h2>
+                <span style={{ width: 48 }} />
+            </div>
+
+            {/* Exercise selector */}
+            <div style={{ display: 'flex', gap: 6, width: '100%', maxWidth: 360, overflowX: 'auto', margin: '8px 0' }}>
+                {EXERCISE_IDS.map(ex => (
+                    <button
+                        key={ex}
+                        onClick={() => setExercise(ex)}
+                        style={{
+                            flexShrink: 0, padding: '6px 10px', borderRadius: 20, cursor: 'pointer',
+                            border: exercise === ex ? `1px solid ${theme.accent}` : '1px solid rgba(255,255,255,0.12)',
+                            background: exercise === ex ? 'rgba(57,255,20,0.12)' : 'rgba(255,255,255,0.04)',
+                            color: exercise === ex ? theme.accent : theme.hint,
+                            fontSize: 12, fontWeight: 700,
+                        }}
+                    >
+                        {EXERCISES[ex].emoji} {t(EXERCISES[ex].label)}
+                    </button>
+                ))}
+            </div>
+
+            {/* Period toggle */}
+            <div style={{ display: 'flex', gap: 4, margin: '4px 0' }}>
+                {PERIODS.map(p => (
+                    <button
+                        key={p.id}
+                        onClick={() => setPeriod(p.id)}
+                        style={{
+                            background: period === p.id ? 'rgba(57,255,20,0.15)' : 'none',
+                            border: 'none', borderRadius: 8, padding: '4px 12px', cursor: 'pointer',
+                            color: period === p.id ? theme.accent : '#64748b', fontSize: 13,
+                        }}
+                    >
+                        {t(p.label)}
+                    </button>
+                ))}
+            </div>
+
+            {/* Your standing */}
+            {me && (
+                <div style={{ ...card, textAlign: 'center', border: '1px solid rgba(57,255,20,0.3)' }}>
+                    <div style={{ color: theme.accent, fontSize: 22, fontWeight: 800 }}>
+                        {t('leaderboard.rank', { rank: me.rank })}
+                    </div>
+                    <div style={{ color: theme.hint, fontSize: 13, marginTop: 4 }}>
+                        {!me.ahead ? t('leaderboard.top')
+                            : isHold ? t('leaderboard.behindHold', { time: formatDuration(me.ahead.gap), name: me.ahead.userName })
+                                : t('leaderboard.behindReps', { count: me.ahead.gap, name: me.ahead.userName })}
+                    </div>
+                </div>
+            )}
+
+            <div style={card}>{renderBoard()}</div>
+        </div>
+    );
+};
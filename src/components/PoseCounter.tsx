@@ -1,24 +1,31 @@
 import { useRef, useState, useEffect } from 'react';
-
-type Landmark = { x: number; y: number; visibility?: number };
-
-const calcAngle = (a: Landmark, b: Landmark, c: Landmark) => {
-    const rad = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
-    let deg = Math.abs(rad * 180 / Math.PI);
-    if (deg > 180) deg = 360 - deg;
-    return deg;
-};
-
-const isVisible = (lm: Landmark, threshold = 0.35) => (lm.visibility ?? 0) > threshold;
-
-const LM = {
-    LEFT_SHOULDER: 11, RIGHT_SHOULDER: 12,
-    LEFT_ELBOW: 13, RIGHT_ELBOW: 14,
-    LEFT_WRIST: 15, RIGHT_WRIST: 16,
-    LEFT_HIP: 23, RIGHT_HIP: 24,
-    LEFT_KNEE: 25, RIGHT_KNEE: 26,
-    LEFT_ANKLE: 27, RIGHT_ANKLE: 28,
-};
+import { EXERCISES, EXERCISE_IDS, getExercise, type ExerciseType } from '../lib/exercises';
+import type { RepEngineState, RepEvent } from '../lib/repEngine';
+import { averageFormScore } from '../lib/formScore';
+import { trustScore } from '../lib/repVerifier';
+import { createModeTracker, describeMode, formatClock, MODE_PRESETS, presetLabel, type IntervalResult, type ModeTracker, type ModeView, type WorkoutMode } from '../lib/workoutModes';
+import { importWorkouts, queryWorkouts, saveWorkout, type BattleLink, type NewWorkoutRecord, type RepTiming, type WorkoutRecord } from '../lib/history';
+import { exportFile, parseImport } from '../lib/historyTransfer';
+import { shareFile } from '../lib/share';
+import type { ShareCardData } from '../lib/shareCard';
+import { computeStreaks, totalsByPeriod } from '../lib/stats';
+import { flushSyncQueue, isSyncEnabled, pullRemoteHistory, syncWorkout } from '../lib/sync';
+import { syncCloudHistory } from '../lib/cloudSync';
+import { loadPosePipeline, type PipelineKind, type PipelineMetrics, type PosePipeline } from '../lib/posePipeline';
+import { PLAYER_COLORS, type SessionConfig } from '../lib/poseSession';
+import { createPerformanceManager, getTier, type PerformanceTier } from '../lib/performanceTier';
+import { isRecordingSupported, RECORDING_PRESETS, recordingLabel, startRecording, type RecordingMode, type WorkoutRecorder } from '../lib/workoutRecorder';
+import { hapticImpact, hapticNotify, theme, useBackButton, useMainButton } from '../lib/telegram';
+import { createVoiceCoach } from '../lib/voiceCoach';
+import { listCameras, openCamera, RESOLUTIONS, withResolution, type CameraChoice, type CameraDevice } from '../lib/camera';
+import { getSettings, saveSettings } from '../lib/settings';
+import { detectLocale, formatDate, formatDuration, LOCALE_IDS, LOCALES, setLocale, t, type Locale } from '../lib/i18n';
+import { StatsView } from './StatsView';
+import { LeaderboardView } from './LeaderboardView';
+import { RepTimeline, WorkoutDetailView } from './WorkoutDetailView';
+import { ShareCardView } from './ShareCardView';
+import { BattleResultsView } from './BattleResultsView';
+import { CALIBRATION_REPS, getCalibration, saveCalibration, type CalibrationProgress } from '../lib/calibration';
 
 // Telegram user info
 interface TgUser {
@@ -26,6 +33,7 @@ interface TgUser {
     first_name: string;
     last_name?: string;
     username?: string;
+    language_code?: string;
 }
 
 const getTelegramUser = (): TgUser | null => {
@@ -45,42 +53,22 @@ const getTelegramUser = (): TgUser | null => {
     return null;
 };
 
-// Simple localStorage history
-const HISTORY_KEY = 'pushup_history';
+// ?debug shows the performance tier and pipeline FPS/latency on the workout screen; ?pipeline=main forces the
+// main-thread pose pipeline so the two can be compared on one device
+const debugParams = new URLSearchParams(window.location.search);
+const SHOW_METRICS = debugParams.has('debug');
+const PREFERRED_PIPELINE: PipelineKind = debugParams.get('pipeline') === 'main' ? 'main' : 'worker';
 
-type ExerciseType = 'pushups' | 'squats';
+const IDLE_ENGINE_STATE: RepEngineState = { count: 0, noRepCount: 0, suspiciousCount: 0, heldMs: 0, stage: 'UP', bodyReady: false, angle: null };
 
-interface WorkoutRecord {
-    userId: number | null;
-    userName: string;
-    count: number;
-    date: string;
-    durationSec: number;
-    exercise?: ExerciseType;
-}
+// Saved choice first, then Telegram's language_code, then the browser's
+const resolveLocale = (choice: Locale | null): Locale =>
+    choice ?? detectLocale(getTelegramUser()?.language_code ?? navigator.language);
 
-const saveWorkout = (record: WorkoutRecord) => {
-    try {
-        const raw = localStorage.getItem(HISTORY_KEY);
-        const history: WorkoutRecord[] = raw ? JSON.parse(raw) : [];
-        history.unshift(record);
-        // Keep last 50
-        if (history.length > 50) history.length = 50;
-        localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
-    } catch {
-        // Storage might be unavailable
-    }
-};
-
-const getHistory = (userId: number | null): WorkoutRecord[] => {
-    try {
-        const raw = localStorage.getItem(HISTORY_KEY);
-        const history: WorkoutRecord[] = raw ? JSON.parse(raw) : [];
-        if (userId) return history.filter(r => r.userId === userId);
-        return history;
-    } catch {
-        return [];
-    }
+const applyLocale = (locale: Locale) => {
+    setLocale(locale);
+    document.documentElement.lang = locale;
+    voiceCoach.setLang(locale);
 };
 
 // ─── Audio System (HTML5 Audio + generated WAV — works in Telegram WebView) ───
@@ -146,6 +134,14 @@ const milestoneWav = generateWav([
 
 const countdownBeepWav = generateWav(generateTone(660, 0.15, 0.7));
 
+const restBeepWav = generateWav(generateTone(440, 0.35, 0.6));
+
+// Low falling buzz — clearly not the rep beep
+const noRepWav = generateWav([
+    ...generateTone(330, 0.12, 0.6),
+    ...generateTone(220, 0.22, 0.6),
+]);
+
 const goBeepWav = generateWav([
     ...generateTone(880, 0.1, 0.6),
     ...generateTone(1100, 0.2, 0.7),
@@ -191,155 +187,213 @@ const playRepSound = () => playSound(repBeepWav);
 const playMilestoneSound = () => playSound(milestoneWav);
 const playCountdownBeep = () => playSound(countdownBeepWav);
 const playGoSound = () => playSound(goBeepWav);
-
-// ─── Share Card Generator ───
-const generateShareCard = async (count: number, duration: string, totalAll: number, exerciseType: ExerciseType): Promise<File> => {
-    const W = 1080, H = 1920;
-    const canvas = document.createElement('canvas');
-    canvas.width = W;
-    canvas.height = H;
-    const ctx = canvas.getContext('2d')!;
-
-    const isSquats = exerciseType === 'squats';
-    const exerciseLabel = isSquats ? 'squats' : 'push-ups';
-    const exerciseEmoji = isSquats ? '🦵' : '💪';
-
-    // Background gradient
-    const bg = ctx.createLinearGradient(0, 0, 0, H);
-    bg.addColorStop(0, '#0a0f1a');
-    bg.addColorStop(0.5, '#0f172a');
-    bg.addColorStop(1, '#1a2744');
-    ctx.fillStyle = bg;
-    ctx.fillRect(0, 0, W, H);
-
-    // Glow circle behind count
-    const glow = ctx.createRadialGradient(W / 2, H * 0.38, 0, W / 2, H * 0.38, 300);
-    glow.addColorStop(0, 'rgba(57,255,20,0.15)');
-    glow.addColorStop(1, 'rgba(57,255,20,0)');
-    ctx.fillStyle = glow;
-    ctx.fillRect(0, 0, W, H);
-
-    // Title
-    ctx.textAlign = 'center';
-    ctx.fillStyle = '#39ff14';
-    ctx.font = 'bold 48px system-ui, sans-serif';
-    ctx.fillText('WORKOUT COMPLETE', W / 2, H * 0.22);
-
-    // Count
-    ctx.fillStyle = '#39ff14';
-    ctx.font = 'bold 220px system-ui, sans-serif';
-    ctx.shadowColor = '#39ff14';
-    ctx.shadowBlur = 60;
-    ctx.fillText(String(count), W / 2, H * 0.42);
-    ctx.shadowBlur = 0;
-
-    // Exercise label
-    ctx.fillStyle = '#94a3b8';
-    ctx.font = '40px system-ui, sans-serif';
-    ctx.fillText(exerciseLabel, W / 2, H * 0.47);
-
-    // Stats
-    ctx.fillStyle = 'white';
-    ctx.font = 'bold 52px system-ui, sans-serif';
-    ctx.fillText(`${duration}  ·  ${totalAll} all-time`, W / 2, H * 0.56);
-
-    // Divider
-    ctx.strokeStyle = 'rgba(57,255,20,0.3)';
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    ctx.moveTo(W * 0.2, H * 0.62);
-    ctx.lineTo(W * 0.8, H * 0.62);
-    ctx.stroke();
-
-    // App name
-    ctx.fillStyle = '#39ff14';
-    ctx.font = 'bold 36px system-ui, sans-serif';
-    ctx.fillText(`${exerciseEmoji} AI PUSH-UP PRO`, W / 2, H * 0.68);
-
-    ctx.fillStyle = '#64748b';
-    ctx.font = '30px system-ui, sans-serif';
-    ctx.fillText('AI-powered exercise tracking', W / 2, H * 0.72);
-
-    // Convert to file
-    const blob = await new Promise<Blob>((resolve) => canvas.toBlob((b) => resolve(b!), 'image/png'));
-    return new File([blob], 'workout-result.png', { type: 'image/png' });
-};
+const playNoRepSound = () => playSound(noRepWav);
+const playRestBeep = () => playSound(restBeepWav);
+
+// Speaks instead of beeping when switched on and the WebView has voices
+const voiceCoach = createVoiceCoach({
+    enabled: getSettings().voiceCoach,
+    fallback: {
+        rep: playRepSound,
+        milestone: playMilestoneSound,
+        noRep: playNoRepSound,
+        warning: () => { /* Position cues were never beeped — the HUD shows them */ },
+        countdown: playCountdownBeep,
+        go: playGoSound,
+        rest: playRestBeep,
+    },
+});
 
 export const PoseCounter: React.FC = () => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const streamRef = useRef<MediaStream | null>(null);
 
-    const [status, setStatus] = useState("Tap START to begin");
+    // Applied before the first string below is rendered
+    const [language, setLanguage] = useState<Locale | null>(() => {
+        const saved = getSettings().language;
+        applyLocale(resolveLocale(saved));
+        return saved;
+    });
+    const [status, setStatus] = useState(() => t('status.tapStart'));
     const [count, setCount] = useState(0);
-    const [phase, setPhase] = useState<'idle' | 'camera' | 'countdown' | 'exercise' | 'results'>('idle');
+    const [phase, setPhase] = useState<'idle' | 'camera' | 'countdown' | 'exercise' | 'battle' | 'results' | 'stats' | 'leaderboard' | 'workout'>('idle');
+    // The leaderboard opens from both idle and results; Back returns to whichever it was
+    const [leaderboardReturn, setLeaderboardReturn] = useState<'idle' | 'results'>('idle');
+    // A past workout reopened from results or the progress screen
+    const [inspecting, setInspecting] = useState<{ record: WorkoutRecord; from: 'results' | 'stats' } | null>(null);
+    // Share card preview, opened over the results
+    const [sharing, setSharing] = useState(false);
     const [errorMsg, setErrorMsg] = useState<string | null>(null);
     const [isBodyReady, setIsBodyReady] = useState(false);
     const [tgUser, setTgUser] = useState<TgUser | null>(null);
-    const [sessionStart, setSessionStart] = useState(0);
+    const sessionStartRef = useRef(0);
+    const [durationSec, setDurationSec] = useState(0);
+    // Date of the session on the results screen, to tell its saved record apart in history
+    const [sessionDate, setSessionDate] = useState('');
     const [history, setHistory] = useState<WorkoutRecord[]>([]);
     const [countdown, setCountdown] = useState(0);
+    const cancelCountdownRef = useRef<(() => void) | null>(null);
+    const [voiceOn, setVoiceOn] = useState(() => getSettings().voiceCoach);
     const [dragonState, setDragonState] = useState<'idle' | 'happy'>('idle');
-    const dragonTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    const dragonTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     const [exercise, setExercise] = useState<ExerciseType>('pushups');
     const exerciseRef = useRef<ExerciseType>('pushups');
 
-    // Cleanup dragon timeout
+    // Timed modes (AMRAP, EMOM, Tabata, first-to-N)
+    const [mode, setMode] = useState<WorkoutMode>({ kind: 'open' });
+    const modeRef = useRef<WorkoutMode>({ kind: 'open' });
+    const modeTrackerRef = useRef<ModeTracker | null>(null);
+    const modeTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const [modeView, setModeView] = useState<ModeView | null>(null);
+    const [intervalResults, setIntervalResults] = useState<IntervalResult[]>([]);
+
+    // Battle mode: a rival on the right of the frame gets their own engine and record
+    const [battle, setBattle] = useState(false);
+    const battleRef = useRef(false);
+    const rivalStateRef = useRef<RepEngineState>(IDLE_ENGINE_STATE);
+    const rivalFormScoresRef = useRef<number[]>([]);
+    const rivalRepTimingsRef = useRef<RepTiming[]>([]);
+    const [rivalCount, setRivalCount] = useState(0);
+    const [isRivalReady, setIsRivalReady] = useState(false);
+    const [battleRecords, setBattleRecords] = useState<{ you: NewWorkoutRecord; rival: NewWorkoutRecord } | null>(null);
+
+    // Cleanup dragon timeout and mode timer
     useEffect(() => {
         return () => {
             if (dragonTimeoutRef.current) clearTimeout(dragonTimeoutRef.current);
+            if (modeTimerRef.current) clearInterval(modeTimerRef.current);
         };
     }, []);
 
-    // Refs for state machine
-    const countRef = useRef(0);
-    const stageRef = useRef<"UP" | "DOWN">("UP");
-    const bodyReadyRef = useRef(false);
-    const bodyReadyFrames = useRef(0);
-    const lastRepTime = useRef(0);
-    const smoothAngle = useRef(160);
-    const poseRef = useRef<{ close: () => void } | null>(null);
-    const cameraRef = useRef<{ stop: () => void } | null>(null);
-    const badFrameCount = useRef(0);
-
-    // Tuned for fast pushups
-    const BODY_READY_THRESHOLD = 5;
-    const REP_COOLDOWN_MS = 150;    // Very short cooldown for fast reps
-    const DOWN_ANGLE = 110;          // Easier to trigger "down"
-    const UP_ANGLE = 145;            // Easier to trigger "up"
-    const SMOOTH_FACTOR = 0.6;       // Higher = more smoothing (60% old, 40% new)
-    const BAD_FRAME_TOLERANCE = 5;   // How many bad frames before pausing
+    // Rep counting runs inside the pose pipeline; React only mirrors its events and state
+    const engineStateRef = useRef<RepEngineState>(IDLE_ENGINE_STATE);
+    const formScoresRef = useRef<number[]>([]);
+    const [formScores, setFormScores] = useState<number[]>([]);
+    const repTimingsRef = useRef<RepTiming[]>([]);
+    const [repTimings, setRepTimings] = useState<RepTiming[]>([]);
+    const [noReps, setNoReps] = useState(0);
+    const [suspiciousReps, setSuspiciousReps] = useState(0);
+    // Set while the user does their calibration reps; the engine waits until it's done
+    const calibratingRef = useRef(false);
+    const calibrationRepsRef = useRef(0);
+    const [isCalibrating, setIsCalibrating] = useState(false);
+    // Loaded on the first workout and reused for the next ones
+    const pipelineRef = useRef<PosePipeline | null>(null);
+    const sessionConfigRef = useRef<SessionConfig | null>(null);
+    const [metrics, setMetrics] = useState<PipelineMetrics | null>(null);
+    const [activeTier, setActiveTier] = useState<{ tier: PerformanceTier; settled: boolean } | null>(null);
+    // Optional workout video, offered on the results screen
+    const [recording, setRecording] = useState<RecordingMode>(() => getSettings().recording);
+    const recorderRef = useRef<WorkoutRecorder | null>(null);
+    const [clip, setClip] = useState<{ file: File; url: string } | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    // Camera picked on the idle screen; `mirrored` follows the one actually opened
+    const [camera, setCamera] = useState<CameraChoice>(() => getSettings().camera);
+    const [cameras, setCameras] = useState<CameraDevice[]>([]);
+    const [mirrored, setMirrored] = useState(true);
+
+    // Cameras come and go (USB webcams, Continuity Camera); labels appear once access is granted
+    useEffect(() => {
+        const refresh = () => { listCameras().then(setCameras).catch(() => undefined); };
+        refresh();
+        navigator.mediaDevices?.addEventListener('devicechange', refresh);
+        return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    }, []);
+
+    const chooseCamera = (changes: Partial<CameraChoice>) => {
+        const { camera: next } = saveSettings({ camera: { ...camera, ...changes } });
+        setCamera(next);
+    };
+
+    // The recorded HUD follows the on-screen one
+    useEffect(() => {
+        const format = (value: number) => EXERCISES[exercise].kind === 'hold' ? formatClock(value) : String(value);
+        recorderRef.current?.setHud({
+            headline: battle ? `${format(count)} – ${format(rivalCount)}` : format(count),
+            status,
+        });
+    }, [exercise, count, status, battle, rivalCount]);
 
     // Init Telegram user
     useEffect(() => {
         const user = getTelegramUser();
         setTgUser(user);
-        setHistory(getHistory(user?.id ?? null));
+        const loadHistory = () => queryWorkouts({ userId: user?.id ?? null }).then(setHistory);
+        loadHistory()
+            .catch((err: unknown) => setErrorMsg(t('error.loadHistory', { message: err instanceof Error ? err.message : String(err) })));
+
+        // Server sync is best-effort: local history above is already usable offline
+        flushSyncQueue()
+            .then(() => pullRemoteHistory())
+            .then(summary => summary && summary.merged > 0 ? loadHistory() : undefined)
+            .catch(() => { /* offline or API down — retried on next launch */ });
+        if (user) {
+            syncCloudHistory(user.id, user.first_name)
+                .then(summary => summary && summary.merged > 0 ? loadHistory() : undefined)
+                .catch(() => { /* CloudStorage unreachable — retried after the next workout */ });
+        }
+
+        const onOnline = () => { void flushSyncQueue(); };
+        window.addEventListener('online', onOnline);
+        return () => window.removeEventListener('online', onOnline);
     }, []);
 
-    const startWorkout = async () => {
+    const startWorkout = async (recalibrate = false) => {
         // Unlock audio on user gesture (critical for iOS)
         unlockAudio();
+        voiceCoach.unlock();
         exerciseRef.current = exercise;
+        modeRef.current = mode;
+        battleRef.current = battle;
+        modeTrackerRef.current = null;
+        setModeView(null);
+        setIntervalResults([]);
         setPhase('camera');
         setCount(0);
-        countRef.current = 0;
-        stageRef.current = "UP";
-        bodyReadyRef.current = false;
-        bodyReadyFrames.current = 0;
-        smoothAngle.current = 160;
-        badFrameCount.current = 0;
+
+        // First workout of this exercise (or an explicit recalibration) starts with calibration reps.
+        // Holds have no range of motion to calibrate. Battles use the exercise's default
+        // thresholds, so neither player counts against the other's calibration.
+        const needsCalibration = EXERCISES[exercise].kind === 'reps' && !battle;
+        const calibration = recalibrate || battle ? null : getCalibration(tgUser?.id ?? null, exercise);
+        engineStateRef.current = IDLE_ENGINE_STATE;
+        calibratingRef.current = needsCalibration && !calibration;
+        calibrationRepsRef.current = 0;
+        setMetrics(null);
+        setActiveTier(null);
+        discardClip();
+        setIsCalibrating(needsCalibration && !calibration);
+        formScoresRef.current = [];
+        setFormScores([]);
+        repTimingsRef.current = [];
+        setRepTimings([]);
+        setNoReps(0);
+        setSuspiciousReps(0);
         setIsBodyReady(false);
-        setStatus("Starting camera...");
+        rivalStateRef.current = IDLE_ENGINE_STATE;
+        rivalFormScoresRef.current = [];
+        rivalRepTimingsRef.current = [];
+        setRivalCount(0);
+        setIsRivalReady(false);
+        setBattleRecords(null);
+        setStatus(t('status.startingCamera'));
 
         try {
             // 1. Get camera access FIRST (triggers permission dialog)
-            const stream = await navigator.mediaDevices.getUserMedia({
-                video: { facingMode: "user", width: 640, height: 480 },
-                audio: false,
-            });
+            const { stream, mirrored } = await openCamera(camera, getTier(getSettings().performanceTier));
             streamRef.current = stream;
+            setMirrored(mirrored);
+            sessionConfigRef.current = {
+                exercise,
+                thresholds: calibration ? { down: calibration.down, up: calibration.up } : null,
+                calibrate: needsCalibration && !calibration,
+                mirrored,
+                players: battle ? 2 : 1,
+            };
+            // Now allowed to read the camera names for the picker
+            listCameras().then(setCameras).catch(() => undefined);
 
             if (videoRef.current) {
                 videoRef.current.srcObject = stream;
@@ -351,353 +405,366 @@ export const PoseCounter: React.FC = () => {
             // 2. Camera ready → start countdown
             setPhase('countdown');
             setCountdown(10);
-            playCountdownBeep();
-            let t = 10;
-            await new Promise<void>((resolve) => {
+            voiceCoach.announce(t(battle ? 'battle.setup' : getExercise(exercise).status.setup), 'countdown');
+            let secondsLeft = 10;
+            const completed = await new Promise<boolean>((resolve) => {
                 const interval = setInterval(() => {
-                    t--;
-                    if (t > 0) {
-                        setCountdown(t);
-                        playCountdownBeep();
+                    secondsLeft--;
+                    if (secondsLeft > 0) {
+                        setCountdown(secondsLeft);
+                        voiceCoach.countdown(secondsLeft);
                     } else {
                         clearInterval(interval);
                         setCountdown(0);
-                        playGoSound();
-                        resolve();
+                        voiceCoach.announce(t('voice.go'), 'go');
+                        resolve(true);
                     }
                 }, 1000);
+                cancelCountdownRef.current = () => {
+                    clearInterval(interval);
+                    resolve(false);
+                };
             });
+            cancelCountdownRef.current = null;
+
+            if (!completed) {
+                voiceCoach.cancel();
+                streamRef.current?.getTracks().forEach(track => track.stop());
+                streamRef.current = null;
+                setCountdown(0);
+                setStatus(t('status.tapStart'));
+                setPhase('idle');
+                return;
+            }
 
             // 3. Countdown done → load AI
             setPhase('camera');
-            setStatus("Loading AI...");
-            setSessionStart(Date.now());
-            loadMediaPipe();
+            setStatus(t('status.loadingAi'));
+            startTracking();
 
         } catch (err: unknown) {
             const msg = err instanceof Error ? err.message : String(err);
             setErrorMsg(msg);
-            setStatus("Camera error");
+            setStatus(t('status.cameraError'));
             setPhase('idle');
         }
     };
 
-    const stopSession = () => {
-        // Stop MediaPipe camera
-        if (cameraRef.current) {
-            try { cameraRef.current.stop(); } catch { /* */ }
+    // Reps, or whole seconds held for hold exercises
+    const progressOf = (state: RepEngineState) =>
+        getExercise(exerciseRef.current).kind === 'hold' ? Math.floor(state.heldMs / 1000) : state.count;
+    const progressCount = () => progressOf(engineStateRef.current);
+    // In a battle the mode clock follows whoever is ahead, so first-to-N ends when either player gets there
+    const leadCount = () => battleRef.current
+        ? Math.max(progressCount(), progressOf(rivalStateRef.current))
+        : progressCount();
+
+    // Starts the workout clock — after the AI loads, or after calibration
+    const startClock = () => {
+        sessionStartRef.current = Date.now();
+        const mode = modeRef.current;
+        if (mode.kind === 'open') return;
+
+        const tracker = createModeTracker(mode);
+        modeTrackerRef.current = tracker;
+        modeTimerRef.current = setInterval(() => {
+            const elapsed = Date.now() - sessionStartRef.current;
+            const { events, view } = tracker.tick(elapsed, leadCount());
+            setModeView(view);
+            events.forEach(event => {
+                switch (event.type) {
+                    case 'interval-start':
+                        if (event.interval.kind === 'rest') voiceCoach.announce(t('voice.rest'), 'rest');
+                        else voiceCoach.announce(t('voice.go'), 'go');
+                        break;
+                    case 'interval-warning':
+                        voiceCoach.countdown(event.secondsLeft);
+                        break;
+                    case 'finished':
+                        voiceCoach.announce(t('voice.finished'), 'milestone');
+                        hapticNotify('success');
+                        stopSession();
+                        break;
+                }
+            });
+        }, 250);
+    };
+
+    const stopSession = async () => {
+        if (modeTimerRef.current) {
+            clearInterval(modeTimerRef.current);
+            modeTimerRef.current = null;
         }
 
+        pipelineRef.current?.stop();
+        const recorder = recorderRef.current;
+        recorderRef.current = null;
+
         // Stop video stream
         if (streamRef.current) {
             streamRef.current.getTracks().forEach(t => t.stop());
             streamRef.current = null;
         }
 
-        const durationSec = Math.round((Date.now() - sessionStart) / 1000);
-        const record: WorkoutRecord = {
+        // Stopped mid-calibration — nothing to record
+        if (calibratingRef.current) {
+            recorder?.cancel();
+            pipelineRef.current?.setOverlayCapture(false);
+            calibratingRef.current = false;
+            setIsCalibrating(false);
+            setStatus(t('status.tapStart'));
+            setPhase('idle');
+            return;
+        }
+
+        const elapsedMs = Date.now() - sessionStartRef.current;
+        const durationSec = Math.round(elapsedMs / 1000);
+        const { count, heldMs, noRepCount, suspiciousCount } = engineStateRef.current;
+        const isHold = getExercise(exerciseRef.current).kind === 'hold';
+        const intervals = modeTrackerRef.current?.getBreakdown(elapsedMs, progressCount()) ?? [];
+        const date = new Date().toISOString();
+
+        // Both sides get a record, linked by id; only the device user's is synced
+        const rival = battleRef.current ? rivalStateRef.current : null;
+        const yours = progressCount();
+        const theirs = rival ? progressOf(rival) : 0;
+        const battleId = rival ? crypto.randomUUID() : '';
+        const outcome = (a: number, b: number): BattleLink['result'] => (a > b ? 'won' : a < b ? 'lost' : 'draw');
+        const record: NewWorkoutRecord = {
             userId: tgUser?.id ?? null,
-            userName: tgUser?.first_name ?? 'Guest',
-            count: countRef.current,
+            userName: tgUser?.first_name ?? t('app.guest'),
+            count,
+            exercise: exerciseRef.current,
+            date,
+            durationSec,
+            formScores: formScoresRef.current,
+            noReps: noRepCount,
+            ...(modeRef.current.kind !== 'open' ? { mode: modeRef.current, intervals } : {}),
+            ...(isHold
+                ? { holdSec: Math.floor(heldMs / 1000) }
+                : { reps: repTimingsRef.current, suspiciousReps: suspiciousCount, trustScore: trustScore(count, suspiciousCount) }),
+            ...(rival ? { battle: { id: battleId, player: 0, opponentScore: theirs, result: outcome(yours, theirs) } } : {}),
+        };
+        const rivalRecord: NewWorkoutRecord | null = rival && {
+            userId: null,
+            userName: t('battle.rival'),
+            count: rival.count,
             exercise: exerciseRef.current,
-            date: new Date().toISOString(),
+            date,
             durationSec,
+            formScores: rivalFormScoresRef.current,
+            noReps: rival.noRepCount,
+            ...(isHold
+                ? { holdSec: theirs }
+                : { reps: rivalRepTimingsRef.current, suspiciousReps: rival.suspiciousCount, trustScore: trustScore(rival.count, rival.suspiciousCount) }),
+            battle: { id: battleId, player: 1, opponentScore: yours, result: outcome(theirs, yours) },
         };
 
-        saveWorkout(record);
-        setHistory(getHistory(tgUser?.id ?? null));
-        setPhase('results');
-    };
+        recorder?.stop()
+            .then(file => file && setClip({ file, url: URL.createObjectURL(file) }))
+            .catch(() => { /* Recording failed; the workout itself is still saved */ })
+            .finally(() => pipelineRef.current?.setOverlayCapture(false));
+
+        setDurationSec(durationSec);
+        setSessionDate(date);
+        setIntervalResults(intervals);
+        setFormScores(formScoresRef.current);
+        setRepTimings(repTimingsRef.current);
+        if (rivalRecord) setBattleRecords({ you: record, rival: rivalRecord });
+        setPhase(rivalRecord ? 'battle' : 'results');
 
-    const loadMediaPipe = async () => {
         try {
-            const { Pose } = await import('@mediapipe/pose');
-            const { Camera } = await import('@mediapipe/camera_utils');
+            await saveWorkout(record);
+            if (rivalRecord) await saveWorkout(rivalRecord);
+            setHistory(await queryWorkouts({ userId: tgUser?.id ?? null }));
+            void syncWorkout(record);
+            if (tgUser) syncCloudHistory(tgUser.id, tgUser.first_name).catch(() => undefined);
+        } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            setErrorMsg(t('error.saveWorkout', { message: msg }));
+        }
+    };
 
-            const pose = new Pose({
-                locateFile: (file: string) =>
-                    `https://cdn.jsdelivr.net/npm/@mediapipe/pose/${file}`,
-            });
-            poseRef.current = pose;
-
-            pose.setOptions({
-                modelComplexity: 1,
-                smoothLandmarks: true,
-                enableSegmentation: false,
-                smoothSegmentation: false,
-                minDetectionConfidence: 0.5,
-                minTrackingConfidence: 0.5,
+    const startTracking = async () => {
+        try {
+            // Starts from the tier this device settled on last time and re-checks it
+            const tiers = createPerformanceManager(getSettings().performanceTier, {
+                onChange: tier => {
+                    pipelineRef.current?.setTier(withResolution(tier, camera.resolution));
+                    setActiveTier({ tier, settled: false });
+                },
+                onSettle: tier => {
+                    saveSettings({ performanceTier: tier.id });
+                    setActiveTier({ tier, settled: true });
+                },
             });
-
-            pose.onResults(onResults);
-
-            if (videoRef.current) {
-                const camera = new Camera(videoRef.current, {
-                    onFrame: async () => {
-                        if (videoRef.current) {
-                            await pose.send({ image: videoRef.current });
+            const initialTier = withResolution(tiers.getTier(), camera.resolution);
+            const pipeline = pipelineRef.current ??= await loadPosePipeline(initialTier, PREFERRED_PIPELINE);
+            pipeline.setTier(initialTier);
+            setActiveTier({ tier: tiers.getTier(), settled: false });
+
+            const session = sessionConfigRef.current;
+            if (session && session.players > pipeline.maxPlayers) {
+                streamRef.current?.getTracks().forEach(track => track.stop());
+                streamRef.current = null;
+                setErrorMsg(t('error.battle'));
+                setStatus(t('status.tapStart'));
+                setPhase('idle');
+                return;
+            }
+            if (videoRef.current && canvasRef.current && session) {
+                pipeline.start(videoRef.current, canvasRef.current, session, {
+                    onEvents: (events, state, player) => {
+                        if (player === 1) {
+                            rivalStateRef.current = state;
+                            events.forEach(handleRivalEvent);
+                            return;
                         }
+                        engineStateRef.current = state;
+                        events.forEach(handleEngineEvent);
+                    },
+                    onCalibration: (progress, state) => {
+                        engineStateRef.current = state;
+                        handleCalibrationProgress(progress);
+                    },
+                    onMetrics: latest => {
+                        tiers.report(latest);
+                        if (SHOW_METRICS) setMetrics(latest);
                     },
-                    width: 640,
-                    height: 480,
+                    onError: err => setErrorMsg(t('error.ai', { message: err.message })),
                 });
-                cameraRef.current = camera;
-                camera.start();
+                if (recording.kind !== 'off' && isRecordingSupported()) {
+                    try {
+                        pipeline.setOverlayCapture(true);
+                        recorderRef.current = startRecording(recording, {
+                            video: videoRef.current,
+                            getOverlay: pipeline.getOverlay,
+                            mirrored: session.mirrored,
+                        });
+                    } catch {
+                        // No usable encoder — the workout goes ahead without a video
+                        pipeline.setOverlayCapture(false);
+                    }
+                }
                 setPhase('exercise');
-                setStatus(exerciseRef.current === 'pushups'
-                    ? "AI ready! Get into pushup position..."
-                    : "AI ready! Stand in front of camera...");
+                if (!calibratingRef.current) startClock();
+                setStatus(calibratingRef.current
+                    ? t('status.calibrationStart', { reps: CALIBRATION_REPS })
+                    : t(getExercise(exerciseRef.current).status.ready));
             }
         } catch (err: unknown) {
             const msg = err instanceof Error ? err.message : String(err);
-            setErrorMsg("AI Error: " + msg);
-            setStatus("AI failed.");
-        }
-    };
-
-    // Check if body is in a valid pushup/plank position
-    const isInPushupPosition = (landmarks: Landmark[]): { ok: boolean; reason: string } => {
-        const requiredParts = [
-            LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER,
-            LM.LEFT_ELBOW, LM.LEFT_WRIST,
-            LM.LEFT_HIP, LM.RIGHT_HIP,
-        ];
-        if (!requiredParts.every(i => isVisible(landmarks[i]))) {
-            return { ok: false, reason: "Can't see full body" };
+            setErrorMsg(t('error.ai', { message: msg }));
+            setStatus(t('status.aiFailed'));
         }
-
-        const shoulderY = (landmarks[LM.LEFT_SHOULDER].y + landmarks[LM.RIGHT_SHOULDER].y) / 2;
-        const hipY = (landmarks[LM.LEFT_HIP].y + landmarks[LM.RIGHT_HIP].y) / 2;
-
-        const torsoHeightDiff = Math.abs(shoulderY - hipY);
-        if (torsoHeightDiff > 0.35) {
-            return { ok: false, reason: "Body not horizontal — lie flat!" };
-        }
-
-        const wristY = (landmarks[LM.LEFT_WRIST].y + landmarks[LM.RIGHT_WRIST].y) / 2;
-        const wristAboveShoulder = shoulderY - wristY;
-        if (wristAboveShoulder > 0.25) {
-            return { ok: false, reason: "Hands too high — get on the floor!" };
-        }
-
-        const shoulderX = (landmarks[LM.LEFT_SHOULDER].x + landmarks[LM.RIGHT_SHOULDER].x) / 2;
-        const hipX = (landmarks[LM.LEFT_HIP].x + landmarks[LM.RIGHT_HIP].x) / 2;
-        const horizontalSpread = Math.abs(shoulderX - hipX);
-        const verticalSpread = Math.abs(shoulderY - hipY);
-        if (horizontalSpread < 0.03 && verticalSpread > 0.1) {
-            return { ok: false, reason: "You're standing! Lie down for pushups" };
-        }
-
-        return { ok: true, reason: "" };
     };
 
-    // Check if body is in valid squat position (standing upright)
-    const isInSquatPosition = (landmarks: Landmark[]): { ok: boolean; reason: string } => {
-        const requiredParts = [
-            LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER,
-            LM.LEFT_HIP, LM.RIGHT_HIP,
-            LM.LEFT_KNEE, LM.LEFT_ANKLE,
-        ];
-        if (!requiredParts.every(i => isVisible(landmarks[i]))) {
-            return { ok: false, reason: "Can't see full body — step back" };
+    const handleCalibrationProgress = (progress: CalibrationProgress) => {
+        const def = getExercise(exerciseRef.current);
+
+        if (progress.result) {
+            const { down, up } = progress.result;
+            saveCalibration(tgUser?.id ?? null, exerciseRef.current, progress.result);
+            calibratingRef.current = false;
+            setIsCalibrating(false);
+            // The workout clock starts after calibration
+            startClock();
+            setStatus(t('status.calibrated', { down, up, ready: t(def.status.ready) }));
+            voiceCoach.announce(t('voice.calibrated'), 'milestone');
+            hapticNotify('success');
+            return;
         }
 
-        const shoulderY = (landmarks[LM.LEFT_SHOULDER].y + landmarks[LM.RIGHT_SHOULDER].y) / 2;
-        const hipY = (landmarks[LM.LEFT_HIP].y + landmarks[LM.RIGHT_HIP].y) / 2;
-
-        // Body should be more vertical than horizontal
-        if (shoulderY > hipY) {
-            return { ok: false, reason: "Stand up straight!" };
+        if (progress.reason) {
+            setStatus(`🔎 ${t(progress.reason)}`);
+            return;
         }
 
-        // Check knees are visible
-        const kneeOk = isVisible(landmarks[LM.LEFT_KNEE]) || isVisible(landmarks[LM.RIGHT_KNEE]);
-        const ankleOk = isVisible(landmarks[LM.LEFT_ANKLE]) || isVisible(landmarks[LM.RIGHT_ANKLE]);
-        if (!kneeOk || !ankleOk) {
-            return { ok: false, reason: "Can't see legs — step back" };
+        if (progress.reps > calibrationRepsRef.current) {
+            calibrationRepsRef.current = progress.reps;
+            voiceCoach.progress(String(progress.reps));
+            hapticImpact('medium');
         }
-
-        return { ok: true, reason: "" };
+        setStatus(t('status.calibrationRep', { reps: progress.reps, needed: progress.needed }));
     };
 
-    const getElbowAngle = (landmarks: Landmark[]): number | null => {
-        const ls = landmarks[LM.LEFT_SHOULDER];
-        const le = landmarks[LM.LEFT_ELBOW];
-        const lw = landmarks[LM.LEFT_WRIST];
-        const leftOk = isVisible(ls) && isVisible(le) && isVisible(lw);
-
-        const rs = landmarks[LM.RIGHT_SHOULDER];
-        const re = landmarks[LM.RIGHT_ELBOW];
-        const rw = landmarks[LM.RIGHT_WRIST];
-        const rightOk = isVisible(rs) && isVisible(re) && isVisible(rw);
-
-        if (leftOk && rightOk) {
-            return (calcAngle(ls, le, lw) + calcAngle(rs, re, rw)) / 2;
-        } else if (leftOk) {
-            return calcAngle(ls, le, lw);
-        } else if (rightOk) {
-            return calcAngle(rs, re, rw);
-        }
-        return null;
-    };
+    const repTiming = (event: Extract<RepEvent, { type: 'rep' }>): RepTiming => ({
+        atMs: event.t - sessionStartRef.current,
+        eccentricMs: event.eccentricMs,
+        concentricMs: event.concentricMs,
+        minAngle: Math.round(event.quality.minAngle),
+    });
 
-    const getKneeAngle = (landmarks: Landmark[]): number | null => {
-        const lh = landmarks[LM.LEFT_HIP];
-        const lk = landmarks[LM.LEFT_KNEE];
-        const la = landmarks[LM.LEFT_ANKLE];
-        const leftOk = isVisible(lh) && isVisible(lk) && isVisible(la);
-
-        const rh = landmarks[LM.RIGHT_HIP];
-        const rk = landmarks[LM.RIGHT_KNEE];
-        const ra = landmarks[LM.RIGHT_ANKLE];
-        const rightOk = isVisible(rh) && isVisible(rk) && isVisible(ra);
-
-        if (leftOk && rightOk) {
-            return (calcAngle(lh, lk, la) + calcAngle(rh, rk, ra)) / 2;
-        } else if (leftOk) {
-            return calcAngle(lh, lk, la);
-        } else if (rightOk) {
-            return calcAngle(rh, rk, ra);
+    // The rival only moves their own counter; the status line and voice stay with the device's user
+    const handleRivalEvent = (event: RepEvent) => {
+        switch (event.type) {
+            case 'body-ready':
+                setIsRivalReady(true);
+                break;
+            case 'hold-second':
+                setRivalCount(event.seconds);
+                break;
+            case 'rep':
+                setRivalCount(event.count);
+                rivalFormScoresRef.current.push(event.quality.score);
+                rivalRepTimingsRef.current.push(repTiming(event));
+                hapticImpact('light');
+                break;
         }
-        return null;
     };
 
-    const onResults = (results: { poseLandmarks?: Landmark[] }) => {
-        if (!canvasRef.current || !videoRef.current) return;
-
-        const video = videoRef.current;
-        const canvas = canvasRef.current;
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-        if (!results.poseLandmarks) {
-            if (bodyReadyRef.current) {
-                bodyReadyFrames.current = 0;
-            }
-            return;
-        }
-
-        const landmarks = results.poseLandmarks;
-
-        // Draw skeleton
-        const drawLine = (from: number, to: number, color: string) => {
-            const a = landmarks[from];
-            const b = landmarks[to];
-            if (isVisible(a) && isVisible(b)) {
-                ctx.beginPath();
-                ctx.moveTo(a.x * canvas.width, a.y * canvas.height);
-                ctx.lineTo(b.x * canvas.width, b.y * canvas.height);
-                ctx.strokeStyle = color;
-                ctx.lineWidth = 3;
-                ctx.stroke();
-            }
-        };
-
-        const skeletonColor = bodyReadyRef.current ? '#39ff14' : '#fbbf24';
-
-        const connections = [
-            [LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER],
-            [LM.LEFT_SHOULDER, LM.LEFT_ELBOW], [LM.LEFT_ELBOW, LM.LEFT_WRIST],
-            [LM.RIGHT_SHOULDER, LM.RIGHT_ELBOW], [LM.RIGHT_ELBOW, LM.RIGHT_WRIST],
-            [LM.LEFT_SHOULDER, LM.LEFT_HIP], [LM.RIGHT_SHOULDER, LM.RIGHT_HIP],
-            [LM.LEFT_HIP, LM.RIGHT_HIP],
-            [LM.LEFT_HIP, LM.LEFT_KNEE], [LM.LEFT_KNEE, LM.LEFT_ANKLE],
-            [LM.RIGHT_HIP, LM.RIGHT_KNEE], [LM.RIGHT_KNEE, LM.RIGHT_ANKLE],
-        ];
-        connections.forEach(([from, to]) => drawLine(from, to, skeletonColor));
-
-        const allPoints = [
-            LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER,
-            LM.LEFT_ELBOW, LM.RIGHT_ELBOW,
-            LM.LEFT_WRIST, LM.RIGHT_WRIST,
-            LM.LEFT_HIP, LM.RIGHT_HIP,
-            LM.LEFT_KNEE, LM.RIGHT_KNEE,
-            LM.LEFT_ANKLE, LM.RIGHT_ANKLE,
-        ];
-        allPoints.forEach(i => {
-            const lm = landmarks[i];
-            if (isVisible(lm)) {
-                ctx.beginPath();
-                ctx.arc(lm.x * canvas.width, lm.y * canvas.height, 5, 0, 2 * Math.PI);
-                ctx.fillStyle = skeletonColor;
-                ctx.fill();
+    const handleEngineEvent = (event: RepEvent) => {
+        const def = getExercise(exerciseRef.current);
+        switch (event.type) {
+            case 'detecting':
+                setStatus(t('status.detecting', { frames: event.frames, needed: event.needed }));
+                break;
+            case 'body-ready':
+                setIsBodyReady(true);
+                setStatus(t(def.status.go));
+                break;
+            case 'position-warning': {
+                const reason = t(event.reason);
+                setStatus(event.bodyReady ? `⚠️ ${reason}` : `🔎 ${reason}`);
+                voiceCoach.cue(reason);
+                break;
             }
-        });
-
-        // Check body position based on exercise type
-        const isSquats = exerciseRef.current === 'squats';
-        const posCheck = isSquats ? isInSquatPosition(landmarks) : isInPushupPosition(landmarks);
-
-        if (!bodyReadyRef.current) {
-            if (posCheck.ok) {
-                bodyReadyFrames.current++;
-                if (bodyReadyFrames.current >= BODY_READY_THRESHOLD) {
-                    bodyReadyRef.current = true;
-                    setIsBodyReady(true);
-                    stageRef.current = "UP";
-                    smoothAngle.current = isSquats ? 170 : 160;
-                    setStatus(isSquats ? "✅ GO! Start squatting!" : "✅ GO! Start pushing!");
-                } else {
-                    setStatus(`Detecting pose... (${bodyReadyFrames.current}/${BODY_READY_THRESHOLD})`);
+            case 'stage':
+                if (event.stage === 'DOWN' && def.status.down) setStatus(t(def.status.down));
+                break;
+            case 'hold-second':
+                setCount(event.seconds);
+                setStatus(t('status.holding', { time: formatClock(event.seconds) }));
+                if (event.seconds % 30 === 0) {
+                    voiceCoach.announce(t('voice.seconds', { count: event.seconds }), 'milestone');
+                    hapticNotify('success');
+                } else if (event.seconds % 10 === 0) {
+                    voiceCoach.progress(t('voice.seconds', { count: event.seconds }));
+                    hapticImpact('medium');
                 }
-            } else {
-                bodyReadyFrames.current = Math.max(0, bodyReadyFrames.current - 1);
-                setStatus(`🔎 ${posCheck.reason}`);
+                break;
+            case 'no-rep': {
+                setNoReps(event.noRepCount);
+                const noRep = def.status.noRep ? t(def.status.noRep) : '';
+                setStatus(noRep);
+                voiceCoach.announce(noRep, 'noRep');
+                hapticNotify('warning');
+                break;
             }
-            return;
-        }
-
-        if (!posCheck.ok) {
-            badFrameCount.current++;
-            if (badFrameCount.current >= BAD_FRAME_TOLERANCE) {
-                setStatus(`⚠️ ${posCheck.reason}`);
-                return;
+            case 'suspicious-rep': {
+                setSuspiciousReps(event.suspiciousCount);
+                const reason = t(event.reason);
+                setStatus(`🚫 ${reason}`);
+                voiceCoach.announce(reason, 'noRep');
+                hapticNotify('error');
+                break;
             }
-        } else {
-            badFrameCount.current = 0;
-        }
-
-        // Get angle based on exercise type
-        const rawAngle = isSquats ? getKneeAngle(landmarks) : getElbowAngle(landmarks);
-        if (rawAngle === null) return;
-
-        smoothAngle.current = SMOOTH_FACTOR * smoothAngle.current + (1 - SMOOTH_FACTOR) * rawAngle;
-        const angle = smoothAngle.current;
-
-        // Thresholds differ for squats
-        const downThreshold = isSquats ? 75 : DOWN_ANGLE;   // squats: knee < 75° (deep squat)
-        const upThreshold = isSquats ? 155 : UP_ANGLE;       // squats: knee > 155°
-
-        // Show angle near the joint
-        const angleLandmark = isSquats ? landmarks[LM.LEFT_KNEE] : landmarks[LM.LEFT_ELBOW];
-        ctx.font = "bold 28px monospace";
-        ctx.fillStyle = "white";
-        ctx.strokeStyle = "black";
-        ctx.lineWidth = 3;
-        const angleText = `${Math.round(angle)}°`;
-        ctx.strokeText(angleText, angleLandmark.x * canvas.width + 12, angleLandmark.y * canvas.height);
-        ctx.fillText(angleText, angleLandmark.x * canvas.width + 12, angleLandmark.y * canvas.height);
-
-        const now = Date.now();
-
-        if (angle < downThreshold) {
-            if (stageRef.current !== "DOWN") {
-                stageRef.current = "DOWN";
-                setStatus(isSquats ? "⬇️ Good Squat!" : "⬇️ Good Depth!");
-            }
-        }
-
-        if (angle > upThreshold && stageRef.current === "DOWN") {
-            if (now - lastRepTime.current > REP_COOLDOWN_MS) {
-                stageRef.current = "UP";
-                countRef.current += 1;
-                lastRepTime.current = now;
-                setCount(countRef.current);
-                setStatus("⬆️ Rep " + countRef.current + "!");
+            case 'rep': {
+                setCount(event.count);
+                formScoresRef.current.push(event.quality.score);
+                repTimingsRef.current.push(repTiming(event));
+                const { score, cue } = event.quality;
+                setStatus(t('status.rep', { count: event.count, score }) + (cue ? ` — ${t(cue)}` : ''));
 
                 // Trigger Dragon Happy State
                 setDragonState('happy');
@@ -706,77 +773,278 @@ export const PoseCounter: React.FC = () => {
                     setDragonState('idle');
                 }, 2000);
 
-                const c = countRef.current;
-                if (c % 10 === 0) {
-                    playMilestoneSound();
+                if (event.count % 10 === 0) {
+                    voiceCoach.announce(t('voice.milestone', { count: event.count }), 'milestone');
+                    hapticNotify('success');
                 } else {
-                    playRepSound();
+                    voiceCoach.progress(String(event.count));
+                    hapticImpact('medium');
                 }
+                break;
+            }
+        }
+    };
+
+    // Everything on this device, not just the current Telegram user
+    const exportHistory = async (format: 'csv' | 'json') => {
+        try {
+            const file = exportFile(await queryWorkouts({ includeRivals: true }), format);
+            if (await shareFile(file, t('history.shareTitle')) === 'downloaded') {
+                alert(t('history.saved', { file: file.name }));
             }
+        } catch (err: unknown) {
+            // Dismissing the share sheet isn't an error
+            if (err instanceof DOMException && err.name === 'AbortError') return;
+            alert(t('error.exportHistory', { message: err instanceof Error ? err.message : String(err) }));
+        }
+    };
+
+    const importHistory = async (file: File) => {
+        try {
+            const { records, invalid } = parseImport(await file.text());
+            const { merged, skipped } = await importWorkouts(records);
+            setHistory(await queryWorkouts({ userId: tgUser?.id ?? null }));
+            alert(t(invalid > 0 ? 'history.mergedInvalid' : 'history.merged', { count: merged, skipped, invalid }) + '.');
+        } catch (err: unknown) {
+            alert(t('error.importHistory', { message: err instanceof Error ? err.message : String(err) }));
         }
     };
 
-    const formatDuration = (sec: number) => {
-        const m = Math.floor(sec / 60);
-        const s = sec % 60;
-        return m > 0 ? `${m}m ${s}s` : `${s}s`;
+    const discardClip = () => {
+        if (clip) URL.revokeObjectURL(clip.url);
+        setClip(null);
+    };
+
+    const resetToIdle = () => {
+        discardClip();
+        setPhase('idle');
+        setCount(0);
+        setErrorMsg(null);
+        setIsBodyReady(false);
+    };
+
+    // Telegram's own buttons for the primary action and Back; custom buttons below are the fallback
+    const nativeMainButton = useMainButton(
+        phase === 'idle' ? { text: t('idle.start', { exercise: t(EXERCISES[exercise].label).toUpperCase() }), onClick: () => startWorkout() }
+            : phase === 'exercise' ? { text: t('workout.stop'), onClick: stopSession, destructive: true }
+                : phase === 'results' && !sharing ? { text: t('results.newWorkout'), onClick: resetToIdle }
+                    : null,
+    );
+    useBackButton(
+        phase === 'results' && !sharing ? resetToIdle
+            : phase === 'countdown' ? () => cancelCountdownRef.current?.()
+                : null,
+    );
+
+    // ─── STATS SCREEN ───
+    const openWorkout = (record: WorkoutRecord, from: 'results' | 'stats') => {
+        setInspecting({ record, from });
+        setPhase('workout');
+    };
+
+    if (phase === 'stats') {
+        return (
+            <StatsView
+                history={history}
+                initialExercise={exercise}
+                onBack={() => setPhase('idle')}
+                onOpenWorkout={record => openWorkout(record, 'stats')}
+            />
+        );
+    }
+
+    // ─── BATTLE WINNER ───
+    if (phase === 'battle' && battleRecords) {
+        return <BattleResultsView you={battleRecords.you} rival={battleRecords.rival} onContinue={() => setPhase('results')} />;
+    }
+
+    // ─── PAST WORKOUT ───
+    if (phase === 'workout' && inspecting) {
+        return <WorkoutDetailView record={inspecting.record} onBack={() => setPhase(inspecting.from)} />;
+    }
+
+    const openLeaderboard = (from: 'idle' | 'results') => {
+        setLeaderboardReturn(from);
+        setPhase('leaderboard');
     };
 
+    // ─── LEADERBOARD SCREEN ───
+    if (phase === 'leaderboard') {
+        return (
+            <LeaderboardView
+                userId={tgUser?.id ?? null}
+                initialExercise={exercise}
+                onBack={() => setPhase(leaderboardReturn)}
+            />
+        );
+    }
+
     // ─── RESULTS SCREEN ───
     if (phase === 'results') {
-        const durationSec = Math.round((Date.now() - sessionStart) / 1000);
         const totalAll = history.reduce((sum, r) => sum + r.count, 0);
-        const totalPushups = history.filter(r => !r.exercise || r.exercise === 'pushups').reduce((s, r) => s + r.count, 0);
-        const totalSquats = history.filter(r => r.exercise === 'squats').reduce((s, r) => s + r.count, 0);
+        // Rep totals, or total seconds held for hold exercises
+        const exerciseTotals = EXERCISE_IDS
+            .map(id => ({
+                id,
+                total: history
+                    .filter(r => r.exercise === id)
+                    .reduce((s, r) => s + (EXERCISES[id].kind === 'hold' ? r.holdSec ?? 0 : r.count), 0),
+            }))
+            .filter(x => x.total > 0 || x.id === exercise);
+        const def = getExercise(exercise);
+        const avgForm = averageFormScore(formScores);
+        const isHold = def.kind === 'hold';
+        const headline = isHold ? formatClock(count) : String(count);
+
+        // Personal best hold — history already includes this session (and a battle rival's
+        // record from it), so leave out everything saved with this session's date
+        const previousBest = history
+            .filter(r => r.exercise === exercise && r.date !== sessionDate)
+            .reduce((best, r) => Math.max(best, r.holdSec ?? 0), 0);
+        const isNewBest = isHold && count > previousBest;
+        const holdBadge = isHold
+            ? (isNewBest ? t('results.newBest') : t('results.best', { time: formatClock(previousBest) }))
+            : undefined;
+        const exerciseNoun = t(def.shareLabel, { count });
+        const shareText = isHold
+            ? t('share.textHold', { emoji: def.emoji, time: headline, exercise: exerciseNoun })
+            : t('share.textReps', { emoji: def.emoji, count, exercise: exerciseNoun });
+
+        if (sharing) {
+            const weekTotal = totalsByPeriod(history, exercise, 'week', 1)[0].total;
+            const card: ShareCardData = {
+                headline,
+                count,
+                exercise,
+                badge: holdBadge,
+                stats: t('share.stats', {
+                    time: formatDuration(durationSec),
+                    total: isHold
+                        ? formatDuration(exerciseTotals.find(x => x.id === exercise)?.total ?? 0)
+                        : totalAll,
+                }),
+                weekTotal: isHold ? formatDuration(weekTotal) : t('common.reps', { count: weekTotal }),
+                streak: computeStreaks(history).current,
+                tempo: repTimings.map(r => r.eccentricMs + r.concentricMs),
+            };
+            return <ShareCardView data={card} shareText={shareText} onBack={() => setSharing(false)} />;
+        }
 
         return (
             <div style={{
                 position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
-                background: 'linear-gradient(180deg, #0f172a 0%, #1e293b 100%)',
+                background: `linear-gradient(180deg, ${theme.bg} 0%, ${theme.bgSecondary} 100%)`,
                 display: 'flex', flexDirection: 'column', alignItems: 'center',
                 justifyContent: 'center', fontFamily: 'system-ui, sans-serif',
                 padding: 24, overflow: 'auto',
             }}>
                 {/* User greeting */}
                 {tgUser && (
-                    <p style={{ color: '#94a3b8', fontSize: 14, margin: '0 0 8px' }}>
+                    <p style={{ color: theme.hint, fontSize: 14, margin: '0 0 8px' }}>
                         👤 {tgUser.first_name}{tgUser.last_name ? ' ' + tgUser.last_name : ''}
                     </p>
                 )}
 
-                <h2 style={{ color: '#39ff14', fontSize: 20, margin: '0 0 4px', fontWeight: 800 }}>
-                    WORKOUT COMPLETE
+                <h2 style={{ color: theme.accent, fontSize: 20, margin: '0 0 4px', fontWeight: 800 }}>
+                    {t('results.title')}
                 </h2>
 
                 <div style={{
-                    fontSize: 100, fontWeight: 900, color: '#39ff14',
-                    textShadow: '0 0 30px #39ff14', lineHeight: 1, margin: '12px 0',
+                    fontSize: 100, fontWeight: 900, color: theme.accent,
+                    textShadow: `0 0 30px ${theme.accent}`, lineHeight: 1, margin: '12px 0',
                 }}>
-                    {count}
+                    {headline}
                 </div>
-                <p style={{ color: '#94a3b8', fontSize: 16, margin: 0 }}>
-                    {exercise === 'squats' ? '🦵 squats' : '💪 push-ups'}
+                {holdBadge && (
+                    <p style={{ color: '#fbbf24', fontSize: 15, fontWeight: 700, margin: '0 0 6px' }}>
+                        {holdBadge}
+                    </p>
+                )}
+                <p style={{ color: theme.hint, fontSize: 16, margin: 0 }}>
+                    {def.emoji} {t(def.shareLabel, { count })}
+                    {noReps > 0 && (
+                        <span style={{ color: '#f87171' }}> · {t('results.noReps', { count: noReps })}</span>
+                    )}
                 </p>
+                {suspiciousReps > 0 && (
+                    <p style={{ color: '#fbbf24', fontSize: 14, margin: '6px 0 0' }}>
+                        {t('results.trust', { score: trustScore(count, suspiciousReps) })}
+                        {' · '}{t('results.suspicious', { count: suspiciousReps })}
+                    </p>
+                )}
 
                 <div style={{
                     display: 'flex', gap: 20, margin: '20px 0',
-                    color: 'white', fontSize: 14,
+                    color: theme.text, fontSize: 14,
+                    flexWrap: 'wrap', justifyContent: 'center',
                 }}>
                     <div style={{ textAlign: 'center' }}>
                         <div style={{ fontSize: 22, fontWeight: 'bold' }}>
                             {formatDuration(durationSec)}
                         </div>
-                        <div style={{ color: '#94a3b8' }}>Duration</div>
+                        <div style={{ color: theme.hint }}>{t('results.duration')}</div>
                     </div>
-                    <div style={{ textAlign: 'center' }}>
-                        <div style={{ fontSize: 22, fontWeight: 'bold' }}>{totalPushups}</div>
-                        <div style={{ color: '#94a3b8' }}>💪 All-time</div>
+                    {avgForm !== null && (
+                        <div style={{ textAlign: 'center' }}>
+                            <div style={{ fontSize: 22, fontWeight: 'bold' }}>{avgForm}%</div>
+                            <div style={{ color: theme.hint }}>{t('results.form')}</div>
+                        </div>
+                    )}
+                    {exerciseTotals.map(x => (
+                        <div key={x.id} style={{ textAlign: 'center' }}>
+                            <div style={{ fontSize: 22, fontWeight: 'bold' }}>
+                                {EXERCISES[x.id].kind === 'hold' ? formatDuration(x.total) : x.total}
+                            </div>
+                            <div style={{ color: theme.hint }}>{EXERCISES[x.id].emoji} {t('results.allTime')}</div>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Interval breakdown for timed modes */}
+                {intervalResults.length > 0 && (
+                    <div style={{
+                        width: '100%', maxWidth: 320, margin: '12px 0',
+                        background: 'rgba(255,255,255,0.05)', borderRadius: 12, padding: 12,
+                    }}>
+                        <h3 style={{ color: theme.hint, fontSize: 12, margin: '0 0 8px', textTransform: 'uppercase' }}>
+                            {describeMode(mode)}
+                        </h3>
+                        {intervalResults.filter(iv => iv.kind === 'work').map(iv => (
+                            <div key={iv.index} style={{
+                                display: 'flex', justifyContent: 'space-between',
+                                padding: '4px 0', borderBottom: '1px solid rgba(255,255,255,0.08)',
+                            }}>
+                                <span style={{ color: theme.text, fontSize: 13 }}>
+                                    {mode.kind === 'tabata' ? t('results.round', { n: Math.floor(iv.index / 2) + 1 }) : t('results.minute', { n: iv.index + 1 })}
+                                </span>
+                                <span style={{
+                                    color: iv.met === false ? '#f87171' : theme.accent,
+                                    fontSize: 13, fontWeight: 'bold',
+                                }}>
+                                    {t('results.intervalReps', {
+                                        count: iv.target ?? iv.reps,
+                                        value: iv.target !== undefined ? `${iv.reps}/${iv.target}` : iv.reps,
+                                    })}
+                                    {iv.met !== undefined && (iv.met ? ' ✅' : ' ❌')}
+                                </span>
+                            </div>
+                        ))}
                     </div>
-                    <div style={{ textAlign: 'center' }}>
-                        <div style={{ fontSize: 22, fontWeight: 'bold' }}>{totalSquats}</div>
-                        <div style={{ color: '#94a3b8' }}>🦵 All-time</div>
+                )}
+
+                {errorMsg && (
+                    <p style={{ color: '#f87171', fontSize: 13, margin: '8px 0' }}>{errorMsg}</p>
+                )}
+
+                {/* Rep-by-rep tempo and fatigue */}
+                {repTimings.length > 0 && (
+                    <div style={{
+                        width: '100%', maxWidth: 320, margin: '12px 0',
+                        background: 'rgba(255,255,255,0.05)', borderRadius: 12, padding: 12,
+                    }}>
+                        <RepTimeline reps={repTimings} durationSec={durationSec} />
                     </div>
-                </div>
+                )}
 
                 {/* Recent history */}
                 {history.length > 1 && (
@@ -784,84 +1052,115 @@ export const PoseCounter: React.FC = () => {
                         width: '100%', maxWidth: 320, margin: '12px 0',
                         background: 'rgba(255,255,255,0.05)', borderRadius: 12, padding: 12,
                     }}>
-                        <h3 style={{ color: '#94a3b8', fontSize: 12, margin: '0 0 8px', textTransform: 'uppercase' }}>
-                            Recent Workouts
+                        <h3 style={{ color: theme.hint, fontSize: 12, margin: '0 0 8px', textTransform: 'uppercase' }}>
+                            {t('results.recent')}
                         </h3>
                         {history.slice(0, 5).map((r, i) => (
-                            <div key={i} style={{
-                                display: 'flex', justifyContent: 'space-between',
+                            <button key={i} onClick={() => openWorkout(r, 'results')} style={{
+                                display: 'flex', justifyContent: 'space-between', width: '100%',
+                                background: 'none', border: 'none', cursor: 'pointer',
                                 padding: '6px 0', borderBottom: i < 4 ? '1px solid rgba(255,255,255,0.08)' : 'none',
                             }}>
-                                <span style={{ color: '#cbd5e1', fontSize: 13 }}>
-                                    {r.exercise === 'squats' ? '🦵' : '💪'} {new Date(r.date).toLocaleDateString()}
+                                <span style={{ color: theme.text, fontSize: 13 }}>
+                                    {getExercise(r.exercise).emoji} {formatDate(r.date)}
                                 </span>
-                                <span style={{ color: '#39ff14', fontSize: 13, fontWeight: 'bold' }}>
-                                    {r.count} reps · {formatDuration(r.durationSec)}
+                                <span style={{ color: theme.accent, fontSize: 13, fontWeight: 'bold' }}>
+                                    {getExercise(r.exercise).kind === 'hold'
+                                        ? t('results.held', { time: formatDuration(r.holdSec ?? 0) })
+                                        : t('results.repsIn', {
+                                            reps: t('common.reps', { count: r.count }),
+                                            time: formatDuration(r.durationSec),
+                                        })}
                                 </span>
-                            </div>
+                            </button>
                         ))}
                     </div>
                 )}
 
+                {/* Workout video */}
+                {clip && (
+                    <video
+                        src={clip.url}
+                        controls playsInline muted
+                        style={{ width: '100%', maxWidth: 320, borderRadius: 12, margin: '8px 0', background: 'black' }}
+                    />
+                )}
+
                 {/* Action Buttons */}
                 <div style={{ display: 'flex', gap: 12, marginTop: 20, flexWrap: 'wrap', justifyContent: 'center' }}>
+                    {!nativeMainButton && (
+                        <button
+                            onClick={resetToIdle}
+                            style={{
+                                background: theme.accent, color: theme.accentText, fontWeight: 'bold',
+                                fontSize: 18, padding: '14px 36px', borderRadius: 50,
+                                border: 'none', cursor: 'pointer',
+                                boxShadow: '0 0 30px rgba(57,255,20,0.5)',
+                            }}
+                        >
+                            {t('results.newWorkout')}
+                        </button>
+                    )}
+
+                    {/* Share card: template, format and preview first */}
                     <button
-                        onClick={() => { setPhase('idle'); setCount(0); setErrorMsg(null); setIsBodyReady(false); }}
+                        onClick={() => setSharing(true)}
                         style={{
-                            background: '#39ff14', color: 'black', fontWeight: 'bold',
+                            background: 'linear-gradient(135deg, #833ab4, #fd1d1d, #fcb045)',
+                            color: 'white', fontWeight: 'bold',
                             fontSize: 18, padding: '14px 36px', borderRadius: 50,
                             border: 'none', cursor: 'pointer',
-                            boxShadow: '0 0 30px rgba(57,255,20,0.5)',
                         }}
                     >
-                        NEW WORKOUT
+                        {t('results.share')}
                     </button>
 
-                    {/* Share to Instagram Story */}
-                    <button
-                        onClick={async () => {
-                            try {
-                                const exLabel = exercise === 'squats' ? 'squats' : 'push-ups';
-                                const exEmoji = exercise === 'squats' ? '🦵' : '💪';
-                                const file = await generateShareCard(count, formatDuration(durationSec), totalAll, exercise);
-                                if (navigator.share && navigator.canShare && navigator.canShare({ files: [file] })) {
-                                    await navigator.share({
-                                        title: 'AI Push-Up Pro',
-                                        text: `${exEmoji} Just did ${count} ${exLabel}!`,
-                                        files: [file],
-                                    });
-                                } else {
-                                    const url = URL.createObjectURL(file);
-                                    const a = document.createElement('a');
-                                    a.href = url;
-                                    a.download = 'workout-result.png';
-                                    a.click();
-                                    URL.revokeObjectURL(url);
-                                    alert('Image saved! Share it to your Instagram Story 📸');
+                    {clip && (
+                        <button
+                            onClick={async () => {
+                                try {
+                                    if (await shareFile(clip.file, t('app.name'), shareText) === 'downloaded') {
+                                        alert(t('share.videoSaved'));
+                                    }
+                                } catch (err: unknown) {
+                                    // Dismissing the share sheet isn't an error
+                                    if (err instanceof DOMException && err.name === 'AbortError') return;
+                                    alert(t('error.share'));
                                 }
-                            } catch {
-                                alert('Could not share. Try taking a screenshot!');
-                            }
-                        }}
+                            }}
+                            style={{
+                                background: 'none', color: 'white', fontWeight: 'bold',
+                                fontSize: 18, padding: '14px 36px', borderRadius: 50,
+                                border: '2px solid rgba(255,255,255,0.4)', cursor: 'pointer',
+                            }}
+                        >
+                            {t('results.shareVideo')}
+                        </button>
+                    )}
+                </div>
+
+                {isSyncEnabled() && (
+                    <button
+                        onClick={() => openLeaderboard('results')}
                         style={{
-                            background: 'linear-gradient(135deg, #833ab4, #fd1d1d, #fcb045)',
-                            color: 'white', fontWeight: 'bold',
-                            fontSize: 18, padding: '14px 36px', borderRadius: 50,
-                            border: 'none', cursor: 'pointer',
+                            background: 'none', border: 'none', cursor: 'pointer',
+                            color: '#fbbf24', fontSize: 15, fontWeight: 600, marginTop: 16,
                         }}
                     >
-                        📸 SHARE TO STORY
+                        {t('results.leaderboard')}
                     </button>
-                </div>
+                )}
             </div>
         );
     }
 
     // ─── MAIN SCREEN ───
+    const idleCalibration = phase === 'idle' && !battle ? getCalibration(tgUser?.id ?? null, exercise) : null;
+
     return (
         <div style={{
             position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
-            background: '#0f172a',
+            background: theme.bg,
             display: 'flex', flexDirection: 'column', alignItems: 'center',
             justifyContent: 'center', overflow: 'hidden',
             fontFamily: 'system-ui, sans-serif',
@@ -874,16 +1173,17 @@ export const PoseCounter: React.FC = () => {
                     style={{
                         position: 'absolute', top: 0, left: 0,
                         width: '100%', height: '100%',
-                        objectFit: 'cover', transform: 'scaleX(-1)',
+                        objectFit: 'cover', transform: mirrored ? 'scaleX(-1)' : 'none',
                         display: phase !== 'idle' ? 'block' : 'none',
                     }}
                 />
+                {/* Never CSS-mirrored: the pose session draws it pre-flipped so text reads correctly */}
                 <canvas
                     ref={canvasRef}
                     style={{
                         position: 'absolute', top: 0, left: 0,
                         width: '100%', height: '100%',
-                        objectFit: 'cover', transform: 'scaleX(-1)',
+                        objectFit: 'cover',
                         pointerEvents: 'none',
                         display: phase !== 'idle' ? 'block' : 'none',
                     }}
@@ -906,7 +1206,7 @@ export const PoseCounter: React.FC = () => {
                             animation: 'popIn 0.3s cubic-bezier(0.175, 0.885, 0.32, 1.275)',
                             boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
                         }}>
-                            {['NICE!', 'KEEP GOING!', 'POWER!', 'YEAH!'][count % 4]}
+                            {t((['dragon.nice', 'dragon.keepGoing', 'dragon.power', 'dragon.yeah'] as const)[count % 4])}
                         </div>
                     )}
 
@@ -969,10 +1269,10 @@ export const PoseCounter: React.FC = () => {
                 )}
 
                 <div style={{
-                    background: isBodyReady ? 'rgba(0,80,0,0.7)' : 'rgba(0,0,0,0.6)',
+                    background: isCalibrating ? 'rgba(8,60,90,0.7)' : isBodyReady ? 'rgba(0,80,0,0.7)' : 'rgba(0,0,0,0.6)',
                     padding: '8px 24px', borderRadius: 50, marginBottom: 12,
                     backdropFilter: 'blur(8px)',
-                    border: isBodyReady ? '1px solid #39ff14' : '1px solid transparent',
+                    border: isBodyReady ? `1px solid ${theme.accent}` : '1px solid transparent',
                     transition: 'all 0.3s',
                 }}>
                     <span style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
@@ -980,19 +1280,76 @@ export const PoseCounter: React.FC = () => {
                     </span>
                 </div>
 
-                {isBodyReady && (
+                {/* Mode timer */}
+                {modeView && phase === 'exercise' && (
                     <div style={{
-                        fontSize: 96, fontWeight: 900, color: '#39ff14',
-                        textShadow: '0 0 20px #39ff14',
+                        background: modeView.resting ? 'rgba(8,60,90,0.75)' : 'rgba(0,0,0,0.6)',
+                        padding: '6px 20px', borderRadius: 16, marginBottom: 8,
+                        display: 'flex', flexDirection: 'column', alignItems: 'center',
                     }}>
-                        {count}
+                        <span style={{ color: modeView.resting ? '#38bdf8' : '#fbbf24', fontSize: 13, fontWeight: 700 }}>
+                            {modeView.title}
+                        </span>
+                        <span style={{ color: 'white', fontSize: 36, fontWeight: 900, fontFamily: 'monospace', lineHeight: 1.1 }}>
+                            {modeView.clock}
+                        </span>
+                        {modeView.detail && (
+                            <span style={{ color: '#cbd5e1', fontSize: 13 }}>{modeView.detail}</span>
+                        )}
+                    </div>
+                )}
+
+                {battle && phase === 'exercise' ? (
+                    // One counter per player, in their skeleton's colour and on their side of the screen
+                    <div style={{ display: 'flex', gap: 48 }}>
+                        {[
+                            { label: t('battle.you'), value: count, ready: isBodyReady },
+                            { label: t('battle.rival'), value: rivalCount, ready: isRivalReady },
+                        ].map(({ label, value, ready }, i) => (
+                            <div key={label} style={{ textAlign: 'center', opacity: ready ? 1 : 0.5 }}>
+                                <div style={{ color: PLAYER_COLORS[i], fontSize: 14, fontWeight: 800, textTransform: 'uppercase' }}>
+                                    {label}
+                                </div>
+                                <div style={{
+                                    fontSize: 80, fontWeight: 900, color: PLAYER_COLORS[i], lineHeight: 1,
+                                    textShadow: `0 0 20px ${PLAYER_COLORS[i]}`,
+                                }}>
+                                    {EXERCISES[exercise].kind === 'hold' ? formatClock(value) : value}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                ) : isBodyReady && (
+                    <div style={{
+                        fontSize: 96, fontWeight: 900, color: theme.accent,
+                        textShadow: `0 0 20px ${theme.accent}`,
+                    }}>
+                        {EXERCISES[exercise].kind === 'hold' ? formatClock(count) : count}
                     </div>
                 )}
             </div>
 
+            {/* Performance tier and pipeline metrics (?debug) */}
+            {SHOW_METRICS && metrics && activeTier && phase === 'exercise' && (
+                <div style={{
+                    position: 'absolute', bottom: 8, left: 8, zIndex: 40,
+                    background: 'rgba(0,0,0,0.6)', color: '#cbd5e1', borderRadius: 6,
+                    padding: '2px 8px', fontSize: 11, fontFamily: 'monospace', pointerEvents: 'none',
+                }}>
+                    <div>
+                        {activeTier.tier.id}{activeTier.settled ? '' : ' (adapting)'} · {activeTier.tier.model}
+                        {' '}{activeTier.tier.width}×{activeTier.tier.height}
+                        {activeTier.tier.frameSkip > 0 ? ` · 1/${activeTier.tier.frameSkip + 1} frames` : ''}
+                    </div>
+                    <div>
+                        {metrics.pipeline} · {metrics.fps} fps · {metrics.latencyMs} ms ({metrics.inferenceMs} model) · {metrics.dropped} dropped
+                    </div>
+                </div>
+            )}
+
             {/* STOP button (during exercise) */}
             {
-                phase === 'exercise' && (
+                phase === 'exercise' && !nativeMainButton && (
                     <div style={{
                         position: 'absolute', bottom: 40, zIndex: 40,
                         pointerEvents: 'auto',
@@ -1006,7 +1363,7 @@ export const PoseCounter: React.FC = () => {
                                 boxShadow: '0 0 20px rgba(239,68,68,0.5)',
                             }}
                         >
-                            ⏹ STOP
+                            {t('workout.stop')}
                         </button>
                     </div>
                 )
@@ -1020,7 +1377,7 @@ export const PoseCounter: React.FC = () => {
                         background: 'rgba(255,0,0,0.2)', border: '1px solid red',
                         borderRadius: 12, padding: 16, zIndex: 40, textAlign: 'center',
                     }}>
-                        <p style={{ color: 'red', fontWeight: 'bold', margin: 0 }}>Error</p>
+                        <p style={{ color: 'red', fontWeight: 'bold', margin: 0 }}>{t('app.error')}</p>
                         <p style={{ color: 'white', fontSize: 14, marginTop: 8 }}>{errorMsg}</p>
                     </div>
                 )
@@ -1033,7 +1390,7 @@ export const PoseCounter: React.FC = () => {
                         position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, zIndex: 40,
                         display: 'flex', flexDirection: 'column', alignItems: 'center',
                         justifyContent: 'center',
-                        background: 'linear-gradient(180deg, #0a0f1a 0%, #0f172a 40%, #1a2744 100%)',
+                        background: `linear-gradient(180deg, ${theme.bg} 0%, ${theme.bgSecondary} 100%)`,
                         padding: 24,
                     }}>
                         {/* User badge */}
@@ -1043,7 +1400,7 @@ export const PoseCounter: React.FC = () => {
                                 background: 'rgba(255,255,255,0.08)', padding: '4px 16px',
                                 borderRadius: 20,
                             }}>
-                                <span style={{ color: '#94a3b8', fontSize: 13 }}>
+                                <span style={{ color: theme.hint, fontSize: 13 }}>
                                     👤 {tgUser.first_name}
                                 </span>
                             </div>
@@ -1051,8 +1408,8 @@ export const PoseCounter: React.FC = () => {
 
                         {/* Hero Image */}
                         <img
-                            src={exercise === 'squats' ? '/hero-squats.png' : '/hero.png'}
-                            alt={exercise === 'squats' ? 'AI Squat Counter' : 'AI Push-Up Counter'}
+                            src={EXERCISES[exercise].heroImage}
+                            alt={t('idle.heroAlt', { exercise: t(EXERCISES[exercise].label) })}
                             style={{
                                 width: '90%',
                                 maxWidth: 380,
@@ -1064,17 +1421,18 @@ export const PoseCounter: React.FC = () => {
 
                         {/* Exercise selector */}
                         <div style={{
-                            display: 'flex', gap: 12, marginBottom: 20, width: '100%', maxWidth: 340,
+                            display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 10,
+                            marginBottom: 20, width: '100%', maxWidth: 340,
                         }}>
-                            {(['pushups', 'squats'] as ExerciseType[]).map(ex => (
+                            {EXERCISE_IDS.map(ex => (
                                 <button
                                     key={ex}
                                     onClick={() => setExercise(ex)}
                                     style={{
-                                        flex: 1, padding: '14px 8px',
+                                        padding: '12px 6px',
                                         borderRadius: 14,
                                         border: exercise === ex
-                                            ? '2px solid #39ff14'
+                                            ? `2px solid ${theme.accent}`
                                             : '2px solid rgba(255,255,255,0.12)',
                                         background: exercise === ex
                                             ? 'rgba(57,255,20,0.12)'
@@ -1086,19 +1444,191 @@ export const PoseCounter: React.FC = () => {
                                     }}
                                 >
                                     <span style={{ fontSize: 28 }}>
-                                        {ex === 'pushups' ? '💪' : '🦵'}
+                                        {EXERCISES[ex].emoji}
                                     </span>
                                     <span style={{
-                                        color: exercise === ex ? '#39ff14' : '#94a3b8',
-                                        fontSize: 14, fontWeight: 700,
+                                        color: exercise === ex ? theme.accent : theme.hint,
+                                        fontSize: 12, fontWeight: 700,
                                         textTransform: 'uppercase',
                                     }}>
-                                        {ex === 'pushups' ? 'Push-ups' : 'Squats'}
+                                        {t(EXERCISES[ex].label)}
                                     </span>
                                 </button>
                             ))}
                         </div>
 
+                        {/* Workout mode selector */}
+                        <div style={{
+                            display: 'flex', gap: 8, marginBottom: 20, width: '100%', maxWidth: 340,
+                            overflowX: 'auto', paddingBottom: 4,
+                        }}>
+                            {MODE_PRESETS.map(preset => {
+                                const selected = describeMode(preset) === describeMode(mode);
+                                return (
+                                    <button
+                                        key={describeMode(preset)}
+                                        onClick={() => setMode(preset)}
+                                        style={{
+                                            flexShrink: 0, padding: '6px 12px', borderRadius: 20,
+                                            border: selected ? `1px solid ${theme.accent}` : '1px solid rgba(255,255,255,0.12)',
+                                            background: selected ? 'rgba(57,255,20,0.12)' : 'rgba(255,255,255,0.04)',
+                                            color: selected ? theme.accent : theme.hint,
+                                            fontSize: 12, fontWeight: 700, cursor: 'pointer',
+                                        }}
+                                    >
+                                        {presetLabel(preset)}
+                                    </button>
+                                );
+                            })}
+                        </div>
+
+                        {/* Camera: facing, a specific device, resolution */}
+                        <div style={{ display: 'flex', gap: 8, marginBottom: 12, flexWrap: 'wrap', justifyContent: 'center' }}>
+                            <button
+                                onClick={() => chooseCamera({ facing: camera.facing === 'user' ? 'environment' : 'user', deviceId: null })}
+                                style={{
+                                    background: 'none', border: '1px solid rgba(255,255,255,0.12)',
+                                    borderRadius: 20, padding: '4px 12px', cursor: 'pointer',
+                                    color: theme.hint, fontSize: 12,
+                                }}
+                            >
+                                {t(camera.facing === 'user' ? 'idle.cameraFront' : 'idle.cameraRear')}
+                            </button>
+                            {cameras.length > 1 && (
+                                <select
+                                    value={camera.deviceId ?? ''}
+                                    onChange={(e) => chooseCamera({ deviceId: e.target.value || null })}
+                                    style={{
+                                        background: theme.bg, border: '1px solid rgba(255,255,255,0.12)',
+                                        borderRadius: 20, padding: '4px 12px', cursor: 'pointer',
+                                        color: theme.hint, fontSize: 12, maxWidth: 180,
+                                    }}
+                                >
+                                    <option value="">{t('idle.cameraDefault')}</option>
+                                    {cameras.map((device, i) => (
+                                        <option key={device.deviceId} value={device.deviceId}>
+                                            {device.label || t('idle.cameraN', { n: i + 1 })}
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
+                            <button
+                                onClick={() => {
+                                    const index = RESOLUTIONS.findIndex(r => r.id === camera.resolution);
+                                    chooseCamera({ resolution: RESOLUTIONS[(index + 1) % RESOLUTIONS.length].id });
+                                }}
+                                style={{
+                                    background: 'none', border: '1px solid rgba(255,255,255,0.12)',
+                                    borderRadius: 20, padding: '4px 12px', cursor: 'pointer',
+                                    color: theme.hint, fontSize: 12,
+                                }}
+                            >
+                                {t('idle.resolution', {
+                                    resolution: camera.resolution === 'auto' ? t('idle.resolutionAuto') : camera.resolution,
+                                })}
+                            </button>
+                            <button
+                                onClick={() => setBattle(!battle)}
+                                style={{
+                                    background: battle ? 'rgba(57,255,20,0.12)' : 'none',
+                                    border: battle ? `1px solid ${theme.accent}` : '1px solid rgba(255,255,255,0.12)',
+                                    borderRadius: 20, padding: '4px 12px', cursor: 'pointer',
+                                    color: battle ? theme.accent : theme.hint, fontSize: 12,
+                                }}
+                            >
+                                {t(battle ? 'idle.battleOn' : 'idle.battleOff')}
+                            </button>
+                        </div>
+
+                        {/* History export / import */}
+                        <div style={{ display: 'flex', gap: 8, marginBottom: 16, flexWrap: 'wrap', justifyContent: 'center' }}>
+                            {(['csv', 'json'] as const).map(format => (
+                                <button
+                                    key={format}
+                                    onClick={() => exportHistory(format)}
+                                    style={{
+                                        background: 'none', border: '1px solid rgba(255,255,255,0.12)',
+                                        borderRadius: 20, padding: '4px 12px', cursor: 'pointer',
+                                        color: theme.hint, fontSize: 12,
+                                    }}
+                                >
+                                    ⬇ {format.toUpperCase()}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => importInputRef.current?.click()}
+                                style={{
+                                    background: 'none', border: '1px solid rgba(255,255,255,0.12)',
+                                    borderRadius: 20, padding: '4px 12px', cursor: 'pointer',
+                                    color: theme.hint, fontSize: 12,
+                                }}
+                            >
+                                {t('idle.import')}
+                            </button>
+                            <button
+                                onClick={() => {
+                                    const { voiceCoach: enabled } = saveSettings({ voiceCoach: !voiceOn });
+                                    voiceCoach.setEnabled(enabled);
+                                    setVoiceOn(enabled);
+                                }}
+                                style={{
+                                    background: voiceOn ? 'rgba(57,255,20,0.12)' : 'none',
+                                    border: voiceOn ? `1px solid ${theme.accent}` : '1px solid rgba(255,255,255,0.12)',
+                                    borderRadius: 20, padding: '4px 12px', cursor: 'pointer',
+                                    color: voiceOn ? theme.accent : theme.hint, fontSize: 12,
+                                }}
+                            >
+                                {t(voiceOn ? 'idle.voiceOn' : 'idle.voiceOff')}
+                            </button>
+                            {isRecordingSupported() && (
+                                <button
+                                    onClick={() => {
+                                        const index = RECORDING_PRESETS.findIndex(preset => JSON.stringify(preset) === JSON.stringify(recording));
+                                        const next = RECORDING_PRESETS[(index + 1) % RECORDING_PRESETS.length];
+                                        saveSettings({ recording: next });
+                                        setRecording(next);
+                                    }}
+                                    style={{
+                                        background: recording.kind !== 'off' ? 'rgba(57,255,20,0.12)' : 'none',
+                                        border: recording.kind !== 'off' ? `1px solid ${theme.accent}` : '1px solid rgba(255,255,255,0.12)',
+                                        borderRadius: 20, padding: '4px 12px', cursor: 'pointer',
+                                        color: recording.kind !== 'off' ? theme.accent : theme.hint, fontSize: 12,
+                                    }}
+                                >
+                                    {recordingLabel(recording)}
+                                </button>
+                            )}
+                            <button
+                                onClick={() => {
+                                    // Auto → each language → back to Auto
+                                    const choices = [null, ...LOCALE_IDS];
+                                    const next = choices[(choices.indexOf(language) + 1) % choices.length];
+                                    saveSettings({ language: next });
+                                    applyLocale(resolveLocale(next));
+                                    setLanguage(next);
+                                    setStatus(t('status.tapStart'));
+                                }}
+                                style={{
+                                    background: 'none', border: '1px solid rgba(255,255,255,0.12)',
+                                    borderRadius: 20, padding: '4px 12px', cursor: 'pointer',
+                                    color: theme.hint, fontSize: 12,
+                                }}
+                            >
+                                {t('idle.language', { language: language ? LOCALES[language].name : t('idle.languageAuto') })}
+                            </button>
+                            <input
+                                ref={importInputRef}
+                                type="file"
+                                accept=".csv,.json,text/csv,application/json"
+                                style={{ display: 'none' }}
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = '';
+                                    if (file) importHistory(file);
+                                }}
+                            />
+                        </div>
+
                         {/* Quick stats */}
                         {history.length > 0 && (
                             <div style={{
@@ -1107,25 +1637,61 @@ export const PoseCounter: React.FC = () => {
                                 borderRadius: 12, padding: '8px 20px',
                                 marginBottom: 20,
                             }}>
-                                <span style={{ color: '#39ff14', fontSize: 14, fontWeight: 600 }}>
-                                    🏆 {history.reduce((s, r) => s + r.count, 0)} reps in {history.length} workouts
+                                <span style={{ color: theme.accent, fontSize: 14, fontWeight: 600 }}>
+                                    {t('idle.totals', {
+                                        reps: t('common.reps', { count: history.reduce((s, r) => s + r.count, 0) }),
+                                        workouts: t('common.workouts', { count: history.length }),
+                                    })}
                                 </span>
+                                <button
+                                    onClick={() => setPhase('stats')}
+                                    style={{
+                                        background: 'none', border: 'none', cursor: 'pointer',
+                                        color: theme.link, fontSize: 14, fontWeight: 600, marginLeft: 12,
+                                    }}
+                                >
+                                    {t('idle.progress')}
+                                </button>
                             </div>
                         )}
 
-                        <button
-                            onClick={startWorkout}
-                            style={{
-                                background: '#39ff14', color: 'black', fontWeight: 'bold',
-                                fontSize: 22, padding: '18px 48px', borderRadius: 50,
-                                border: 'none', cursor: 'pointer',
-                                boxShadow: '0 0 30px rgba(57,255,20,0.6)',
-                            }}
-                        >
-                            START {exercise === 'pushups' ? 'PUSH-UPS' : 'SQUATS'}
-                        </button>
+                        {!nativeMainButton && (
+                            <button
+                                onClick={() => startWorkout()}
+                                style={{
+                                    background: theme.accent, color: theme.accentText, fontWeight: 'bold',
+                                    fontSize: 22, padding: '18px 48px', borderRadius: 50,
+                                    border: 'none', cursor: 'pointer',
+                                    boxShadow: '0 0 30px rgba(57,255,20,0.6)',
+                                }}
+                            >
+                                {t('idle.start', { exercise: t(EXERCISES[exercise].label).toUpperCase() })}
+                            </button>
+                        )}
+                        {idleCalibration && (
+                            <button
+                                onClick={() => startWorkout(true)}
+                                style={{
+                                    background: 'none', border: 'none', cursor: 'pointer',
+                                    color: theme.link, fontSize: 13, marginTop: 12,
+                                }}
+                            >
+                                {t('idle.recalibrate', { down: idleCalibration.down, up: idleCalibration.up })}
+                            </button>
+                        )}
+                        {isSyncEnabled() && (
+                            <button
+                                onClick={() => openLeaderboard('idle')}
+                                style={{
+                                    background: 'none', border: 'none', cursor: 'pointer',
+                                    color: '#fbbf24', fontSize: 14, fontWeight: 600, marginTop: 12,
+                                }}
+                            >
+                                {t('idle.leaderboard')}
+                            </button>
+                        )}
                         <p style={{ color: '#64748b', fontSize: 13, margin: '12px 0 0' }}>
-                            AI-powered exercise tracking
+                            {t('app.tagline')}
                         </p>
                     </div>
                 )
@@ -1138,21 +1704,21 @@ export const PoseCounter: React.FC = () => {
                         position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, zIndex: 50,
                         display: 'flex', flexDirection: 'column', alignItems: 'center',
                         justifyContent: 'center',
-                        background: 'linear-gradient(180deg, #0a0f1a 0%, #0f172a 100%)',
+                        background: `linear-gradient(180deg, ${theme.bg} 0%, ${theme.bgSecondary} 100%)`,
                     }}>
-                        <p style={{ color: '#94a3b8', fontSize: 18, margin: '0 0 16px', textTransform: 'uppercase', letterSpacing: 2 }}>
-                            Get into position!
+                        <p style={{ color: theme.hint, fontSize: 18, margin: '0 0 16px', textTransform: 'uppercase', letterSpacing: 2 }}>
+                            {t('countdown.title')}
                         </p>
                         <div style={{
-                            fontSize: 140, fontWeight: 900, color: '#39ff14',
-                            textShadow: '0 0 60px #39ff14, 0 0 120px rgba(57,255,20,0.3)',
+                            fontSize: 140, fontWeight: 900, color: theme.accent,
+                            textShadow: `0 0 60px ${theme.accent}, 0 0 120px rgba(57,255,20,0.3)`,
                             lineHeight: 1,
                             animation: 'pulse 1s ease-in-out infinite',
                         }}>
                             {countdown}
                         </div>
                         <p style={{ color: '#64748b', fontSize: 14, marginTop: 24 }}>
-                            Lie down and place hands on floor
+                            {t(battle ? 'battle.setup' : EXERCISES[exercise].status.setup)}
                         </p>
                         <style>{`@keyframes pulse { 0%,100% { transform: scale(1); } 50% { transform: scale(1.08); } }`}</style>
                     </div>
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { availableTemplates, renderShareCard, SHARE_FORMATS, type ShareCardData, type ShareFormat, type ShareTemplate } from '../lib/shareCard';
+import { shareFile } from '../lib/share';
+import { isSyncEnabled, uploadStoryMedia } from '../lib/sync';
+import { getSettings, saveSettings } from '../lib/settings';
+import { canShareToStory, shareToStory, theme, useBackButton } from '../lib/telegram';
+import { t } from '../lib/i18n';
+
+interface Preview {
+    template: ShareTemplate;
+    format: ShareFormat;
+    file: File;
+    url: string;
+}
+
+const chip = (active: boolean): React.CSSProperties => ({
+    flexShrink: 0, padding: '6px 12px', borderRadius: 20, cursor: 'pointer',
+    border: active ? `1px solid ${theme.accent}` : '1px solid rgba(255,255,255,0.12)',
+    background: active ? 'rgba(57,255,20,0.12)' : 'rgba(255,255,255,0.04)',
+    color: active ? theme.accent : theme.hint,
+    fontSize: 12, fontWeight: 700,
+});
+
+// Template and format picker with a live preview of the card before it's shared
+export const ShareCardView: React.FC<{
+    data: ShareCardData;
+    shareText: string;
+    onBack: () => void;
+}> = ({ data, shareText, onBack }) => {
+    const nativeBack = useBackButton(onBack);
+    // The workout is over, so the card's numbers are fixed for as long as this is open
+    const [card] = useState(data);
+    const templates = availableTemplates(card);
+    const [template, setTemplate] = useState<ShareTemplate>(() => {
+        const saved = getSettings().shareTemplate;
+        return templates.some(tpl => tpl.id === saved) ? saved : 'stats';
+    });
+    const [format, setFormat] = useState<ShareFormat>(() => getSettings().shareFormat);
+    const [preview, setPreview] = useState<Preview | null>(null);
+    const [uploading, setUploading] = useState(false);
+    const toStory = canShareToStory() && isSyncEnabled();
+
+    useEffect(() => {
+        let cancelled = false;
+        let url: string | null = null;
+        renderShareCard(card, template, format)
+            .then(file => {
+                if (cancelled) return;
+                url = URL.createObjectURL(file);
+                setPreview({ template, format, file, url });
+            })
+            .catch(() => { /* Keeps the spinner; sharing stays disabled */ });
+        return () => {
+            cancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [card, template, format]);
+
+    // The previous card's URL is revoked as soon as the picks change
+    const ready = preview && preview.template === template && preview.format === format ? preview : null;
+
+    const pickTemplate = (id: ShareTemplate) => {
+        setTemplate(id);
+        saveSettings({ shareTemplate: id });
+    };
+
+    const pickFormat = (id: ShareFormat) => {
+        setFormat(id);
+        saveSettings({ shareFormat: id });
+    };
+
+    const share = async () => {
+        if (!ready) return;
+        try {
+            if (await shareFile(ready.file, t('app.name'), shareText) === 'downloaded') {
+                alert(t('share.saved'));
+            }
+        } catch (err: unknown) {
+            // Dismissing the share sheet isn't an error
+            if (err instanceof DOMException && err.name === 'AbortError') return;
+            alert(t('error.share'));
+        }
+    };
+
+    const shareStory = async () => {
+        if (!ready) return;
+        setUploading(true);
+        try {
+            shareToStory(await uploadStoryMedia(ready.file), shareText);
+        } catch {
+            alert(t('error.share'));
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const { width, height } = SHARE_FORMATS.find(f => f.id === format)!;
+
+    return (
+        <div style={{
+            position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+            background: `linear-gradient(180deg, ${theme.bg} 0%, ${theme.bgSecondary} 100%)`,
+            display: 'flex', flexDirection: 'column', alignItems: 'center',
+            fontFamily: 'system-ui, sans-serif',
+            padding: 20, overflow: 'auto', boxSizing: 'border-box',
+        }}>
+            <div style={{ width: '100%', maxWidth: 360, display: 'flex', alignItems: 'center', marginBottom: 12 }}>
+                {nativeBack ? <span style={{ width: 48 }} /> : (
+                    <button
+                        onClick={onBack}
+                        style={{ background: 'none', border: 'none', color: theme.hint, fontSize: 16, cursor: 'pointer', padding: 0 }}
+                    >
+                        {t('app.back')}
+                    </button>
+                )}
+                <h2 style={{ color: theme.accent, fontSize: 20, margin: '0 auto', fontWeight: 800 }}>
+                    {t('share.title')}
+                </h2>
+                <span style={{ width: 48 }} />
+            </div>
+
+            {/* Preview, sized to the format before the image arrives */}
+            <div style={{
+                width: '100%', maxWidth: 360, maxHeight: '52vh',
+                aspectRatio: `${width} / ${height}`,
+                display: 'flex', alignItems: 'center', justifyContent: 'center',
+                background: 'rgba(255,255,255,0.04)', borderRadius: 12, overflow: 'hidden',
+            }}>
+                {ready ? (
+                    <img src={ready.url} alt="" style={{ width: '100%', height: '100%', objectFit: 'contain' }} />
+                ) : (
+                    <span style={{ color: theme.hint, fontSize: 13 }}>{t('share.rendering')}</span>
+                )}
+            </div>
+
+            <div style={{ display: 'flex', gap: 6, width: '100%', maxWidth: 360, overflowX: 'auto', margin: '12px 0 6px' }}>
+                {templates.map(tpl => (
+                    <button key={tpl.id} onClick={() => pickTemplate(tpl.id)} style={chip(template === tpl.id)}>
+                        {t(tpl.label)}
+                    </button>
+                ))}
+            </div>
+            <div style={{ display: 'flex', gap: 6, width: '100%', maxWidth: 360, margin: '0 0 12px' }}>
+                {SHARE_FORMATS.map(f => (
+                    <button key={f.id} onClick={() => pickFormat(f.id)} style={chip(format === f.id)}>
+                        {f.label}
+                    </button>
+                ))}
+            </div>
+
+            <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', justifyContent: 'center' }}>
+                {toStory && (
+                    <button
+                        onClick={shareStory}
+                        disabled={!ready || uploading}
+                        style={{
+                            background: theme.accent, color: theme.accentText, fontWeight: 'bold',
+                            fontSize: 16, padding: '12px 24px', borderRadius: 50,
+                            border: 'none', cursor: 'pointer', opacity: ready && !uploading ? 1 : 0.5,
+                        }}
+                    >
+                        {t('share.toStory')}
+                    </button>
+                )}
+                <button
+                    onClick={share}
+                    disabled={!ready}
+                    style={{
+                        background: toStory ? 'transparent' : theme.accent,
+                        color: toStory ? theme.accent : theme.accentText,
+                        fontWeight: 'bold', fontSize: 16, padding: '12px 24px', borderRadius: 50,
+                        border: `2px solid ${theme.accent}`, cursor: 'pointer', opacity: ready ? 1 : 0.5,
+                    }}
+                >
+                    {t('share.send')}
+                </button>
+            </div>
+        </div>
+    );
+};
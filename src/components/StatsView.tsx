@@ -0,0 +1,258 @@
+import { useEffect, useRef, useState } from 'react';
+import { EXERCISES, EXERCISE_IDS, type ExerciseType } from '../lib/exercises';
+import type { WorkoutRecord } from '../lib/history';
+import { computeStreaks, paceTrend, personalBests, totalsByPeriod, type Bucket, type Period } from '../lib/stats';
+import { theme, useBackButton } from '../lib/telegram';
+import { formatDate, formatDuration, t, type MessageKey } from '../lib/i18n';
+import { setupCanvas } from '../lib/canvas';
+
+const PERIODS: { id: Period; label: MessageKey; buckets: number }[] = [
+    { id: 'day', label: 'stats.daily', buckets: 7 },
+    { id: 'week', label: 'stats.weekly', buckets: 8 },
+    { id: 'month', label: 'stats.monthly', buckets: 6 },
+];
+
+const BarChart: React.FC<{ buckets: Bucket[] }> = ({ buckets }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        if (!canvasRef.current) return;
+        const { ctx, width, height } = setupCanvas(canvasRef.current);
+        if (!ctx) return;
+
+        ctx.clearRect(0, 0, width, height);
+        const max = Math.max(1, ...buckets.map(b => b.total));
+        const labelH = 18;
+        const slot = width / buckets.length;
+        const barW = slot * 0.6;
+
+        buckets.forEach((b, i) => {
+            const x = i * slot + (slot - barW) / 2;
+            const h = (b.total / max) * (height - labelH - 16);
+            const y = height - labelH - h;
+
+            ctx.fillStyle = b.total > 0 ? '#39ff14' : 'rgba(255,255,255,0.08)';
+            ctx.fillRect(x, y, barW, Math.max(h, 2));
+
+            ctx.fillStyle = '#94a3b8';
+            ctx.font = '11px system-ui, sans-serif';
+            ctx.textAlign = 'center';
+            ctx.fillText(b.label, x + barW / 2, height - 4);
+            if (b.total > 0) {
+                ctx.fillStyle = 'white';
+                ctx.fillText(String(b.total), x + barW / 2, y - 4);
+            }
+        });
+    }, [buckets]);
+
+    return <canvas ref={canvasRef} style={{ width: '100%', height: 160, display: 'block' }} />;
+};
+
+const LineChart: React.FC<{ values: number[] }> = ({ values }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        if (!canvasRef.current) return;
+        const { ctx, width, height } = setupCanvas(canvasRef.current);
+        if (!ctx) return;
+
+        ctx.clearRect(0, 0, width, height);
+        if (values.length < 2) {
+            ctx.fillStyle = '#64748b';
+            ctx.font = '13px system-ui, sans-serif';
+            ctx.textAlign = 'center';
+            ctx.fillText(t('stats.needTwo'), width / 2, height / 2);
+            return;
+        }
+
+        const max = Math.max(...values);
+        const min = Math.min(...values);
+        const span = max - min || 1;
+        const pad = 12;
+        const point = (v: number, i: number) => [
+            pad + (i / (values.length - 1)) * (width - pad * 2),
+            height - pad - ((v - min) / span) * (height - pad * 2),
+        ];
+
+        ctx.strokeStyle = '#38bdf8';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        values.forEach((v, i) => {
+            const [x, y] = point(v, i);
+            if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+
+        ctx.fillStyle = '#38bdf8';
+        values.forEach((v, i) => {
+            const [x, y] = point(v, i);
+            ctx.beginPath();
+            ctx.arc(x, y, 3, 0, 2 * Math.PI);
+            ctx.fill();
+        });
+
+        ctx.fillStyle = '#94a3b8';
+        ctx.font = '11px system-ui, sans-serif';
+        ctx.textAlign = 'left';
+        ctx.fillText(t('stats.perMinute', { value: max.toFixed(1) }), 2, 11);
+        ctx.fillText(t('stats.perMinute', { value: min.toFixed(1) }), 2, height - 2);
+    }, [values]);
+
+    return <canvas ref={canvasRef} style={{ width: '100%', height: 120, display: 'block' }} />;
+};
+
+const SESSIONS_SHOWN = 10;
+
+const card: React.CSSProperties = {
+    width: '100%', maxWidth: 360, margin: '8px 0',
+    background: 'rgba(255,255,255,0.05)', borderRadius: 12, padding: 12,
+    boxSizing: 'border-box',
+};
+
+const cardTitle: React.CSSProperties = {
+    color: theme.hint, fontSize: 12, margin: '0 0 8px', textTransform: 'uppercase',
+};
+
+export const StatsView: React.FC<{
+    history: WorkoutRecord[];
+    initialExercise: ExerciseType;
+    onBack: () => void;
+    onOpenWorkout: (record: WorkoutRecord) => void;
+}> = ({ history, initialExercise, onBack, onOpenWorkout }) => {
+    const [exercise, setExercise] = useState<ExerciseType>(initialExercise);
+    const nativeBack = useBackButton(onBack);
+    const [period, setPeriod] = useState<Period>('day');
+
+    const def = EXERCISES[exercise];
+    const isHold = def.kind === 'hold';
+    const periodDef = PERIODS.find(p => p.id === period)!;
+    const buckets = totalsByPeriod(history, exercise, period, periodDef.buckets);
+    const streaks = computeStreaks(history);
+    const bests = personalBests(history, exercise);
+    const pace = paceTrend(history, exercise);
+    const sessions = history.filter(r => r.exercise === exercise).slice(0, SESSIONS_SHOWN);
+
+    const stat = (value: string, label: string) => (
+        <div style={{ textAlign: 'center', flex: 1 }}>
+            <div style={{ color: theme.text, fontSize: 22, fontWeight: 'bold' }}>{value}</div>
+            <div style={{ color: theme.hint, fontSize: 12 }}>{label}</div>
+        </div>
+    );
+
+    return (
+        <div style={{
+            position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+            background: `linear-gradient(180deg, ${theme.bg} 0%, ${theme.bgSecondary} 100%)`,
+            display: 'flex', flexDirection: 'column', alignItems: 'center',
+            fontFamily: 'system-ui, sans-serif',
+            padding: 20, overflow: 'auto', boxSizing: 'border-box',
+        }}>
+            <div style={{ width: '100%', maxWidth: 360, display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+                {nativeBack ? <span style={{ width: 48 }} /> : (
+                    <button
+                        onClick={onBack}
+                        style={{ background: 'none', border: 'none', color: theme.hint, fontSize: 16, cursor: 'pointer', padding: 0 }}
+                    >
+                        {t('app.back')}
+                    </button>
+                )}
+                <h2 style={{ color: theme.accent, fontSize: 20, margin: '0 auto', fontWeight: 800 }}>
+                    {t('stats.title')}
+                </h2>
+                <span style={{ width: 48 }} />
+            </div>
+
+            {/* Streaks */}
+            <div style={{ ...card, display: 'flex' }}>
+                {stat(`🔥 ${streaks.current}`, t('stats.currentStreak'))}
+                {stat(`${streaks.longest}`, t('stats.longestStreak'))}
+            </div>
+
+            {/* Exercise selector */}
+            <div style={{ display: 'flex', gap: 6, width: '100%', maxWidth: 360, overflowX: 'auto', margin: '8px 0' }}>
+                {EXERCISE_IDS.map(ex => (
+                    <button
+                        key={ex}
+                        onClick={() => setExercise(ex)}
+                        style={{
+                            flexShrink: 0, padding: '6px 10px', borderRadius: 20, cursor: 'pointer',
+                            border: exercise === ex ? `1px solid ${theme.accent}` : '1px solid rgba(255,255,255,0.12)',
+                            background: exercise === ex ? 'rgba(57,255,20,0.12)' : 'rgba(255,255,255,0.04)',
+                            color: exercise === ex ? theme.accent : theme.hint,
+                            fontSize: 12, fontWeight: 700,
+                        }}
+                    >
+                        {EXERCISES[ex].emoji} {t(EXERCISES[ex].label)}
+                    </button>
+                ))}
+            </div>
+
+            {/* Totals chart */}
+            <div style={card}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <h3 style={cardTitle}>{t(isHold ? 'stats.secondsHeld' : 'stats.reps')}</h3>
+                    <div style={{ display: 'flex', gap: 4 }}>
+                        {PERIODS.map(p => (
+                            <button
+                                key={p.id}
+                                onClick={() => setPeriod(p.id)}
+                                style={{
+                                    background: period === p.id ? 'rgba(57,255,20,0.15)' : 'none',
+                                    border: 'none', borderRadius: 8, padding: '2px 8px', cursor: 'pointer',
+                                    color: period === p.id ? theme.accent : '#64748b', fontSize: 11,
+                                }}
+                            >
+                                {t(p.label)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <BarChart buckets={buckets} />
+            </div>
+
+            {/* Personal bests */}
+            <div style={card}>
+                <h3 style={cardTitle}>{t('stats.personalBests')}</h3>
+                <div style={{ display: 'flex' }}>
+                    {stat(isHold ? formatDuration(bests.mostInSession) : String(bests.mostInSession), t(isHold ? 'stats.longestHold' : 'stats.mostInSession'))}
+                    {!isHold && stat(bests.fastest50Sec !== null ? formatDuration(bests.fastest50Sec) : '—', t('stats.fastest50'))}
+                    {!isHold && stat(bests.bestPace !== null ? bests.bestPace.toFixed(1) : '—', t('stats.bestPace'))}
+                </div>
+            </div>
+
+            {/* Pace trend */}
+            {!isHold && (
+                <div style={card}>
+                    <h3 style={cardTitle}>{t('stats.pace')}</h3>
+                    <LineChart values={pace} />
+                </div>
+            )}
+
+            {/* Past sessions, each opens its rep timeline */}
+            {sessions.length > 0 && (
+                <div style={card}>
+                    <h3 style={cardTitle}>{t('stats.sessions')}</h3>
+                    {sessions.map((r, i) => (
+                        <button
+                            key={r.id ?? i}
+                            onClick={() => onOpenWorkout(r)}
+                            style={{
+                                display: 'flex', justifyContent: 'space-between', width: '100%',
+                                background: 'none', border: 'none', cursor: 'pointer', padding: '6px 0',
+                                borderBottom: i < sessions.length - 1 ? '1px solid rgba(255,255,255,0.08)' : 'none',
+                            }}
+                        >
+                            <span style={{ color: theme.text, fontSize: 13 }}>{formatDate(r.date)}</span>
+                            <span style={{ color: theme.accent, fontSize: 13, fontWeight: 'bold' }}>
+                                {isHold
+                                    ? t('results.held', { time: formatDuration(r.holdSec ?? 0) })
+                                    : t('results.repsIn', { reps: t('common.reps', { count: r.count }), time: formatDuration(r.durationSec) })}
+                                {' ›'}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,240 @@
+import { useEffect, useRef } from 'react';
+import { getExercise } from '../lib/exercises';
+import type { RepTiming, WorkoutRecord } from '../lib/history';
+import { averageFormScore } from '../lib/formScore';
+import { fatigueOf, REP_WINDOW_SEC, repsPerWindow, type RepWindow } from '../lib/stats';
+import { theme, useBackButton } from '../lib/telegram';
+import { formatDate, formatDuration, t } from '../lib/i18n';
+import { setupCanvas } from '../lib/canvas';
+
+const COLOR_ECCENTRIC = '#38bdf8';
+const COLOR_CONCENTRIC = '#39ff14';
+
+// One stacked bar per rep: the way down underneath, the way up on top
+const TempoChart: React.FC<{ reps: RepTiming[] }> = ({ reps }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        if (!canvasRef.current) return;
+        const { ctx, width, height } = setupCanvas(canvasRef.current);
+        if (!ctx) return;
+
+        ctx.clearRect(0, 0, width, height);
+        const maxMs = Math.max(1, ...reps.map(r => r.eccentricMs + r.concentricMs));
+        const labelH = 16;
+        const top = 14;
+        const scale = (height - labelH - top) / maxMs;
+        const slot = width / reps.length;
+        const barW = Math.max(2, slot * 0.7);
+        // Label every rep while they fit, otherwise every 5th or 10th
+        const labelEvery = slot >= 16 ? 1 : slot >= 4 ? 5 : 10;
+
+        reps.forEach((r, i) => {
+            const x = i * slot + (slot - barW) / 2;
+            const down = r.eccentricMs * scale;
+            const up = r.concentricMs * scale;
+            const base = height - labelH;
+
+            ctx.fillStyle = COLOR_ECCENTRIC;
+            ctx.fillRect(x, base - down, barW, down);
+            ctx.fillStyle = COLOR_CONCENTRIC;
+            ctx.fillRect(x, base - down - up, barW, up);
+
+            if ((i + 1) % labelEvery === 0 || i === 0) {
+                ctx.fillStyle = '#94a3b8';
+                ctx.font = '10px system-ui, sans-serif';
+                ctx.textAlign = 'center';
+                ctx.fillText(String(i + 1), x + barW / 2, height - 4);
+            }
+        });
+
+        ctx.fillStyle = '#94a3b8';
+        ctx.font = '11px system-ui, sans-serif';
+        ctx.textAlign = 'left';
+        ctx.fillText(t('results.seconds', { value: (maxMs / 1000).toFixed(1) }), 2, 10);
+    }, [reps]);
+
+    return <canvas ref={canvasRef} style={{ width: '100%', height: 120, display: 'block' }} />;
+};
+
+// Reps per window across the set; a partial last window is drawn faded
+const WindowChart: React.FC<{ windows: RepWindow[] }> = ({ windows }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        if (!canvasRef.current) return;
+        const { ctx, width, height } = setupCanvas(canvasRef.current);
+        if (!ctx) return;
+
+        ctx.clearRect(0, 0, width, height);
+        const max = Math.max(1, ...windows.map(w => w.reps));
+        const labelH = 14;
+        const slot = width / windows.length;
+        const barW = slot * 0.6;
+
+        windows.forEach((w, i) => {
+            const x = i * slot + (slot - barW) / 2;
+            const h = (w.reps / max) * (height - labelH - 14);
+            const y = height - labelH - h;
+
+            ctx.fillStyle = w.partial ? 'rgba(57,255,20,0.35)' : '#39ff14';
+            ctx.fillRect(x, y, barW, Math.max(h, 2));
+
+            ctx.font = '10px system-ui, sans-serif';
+            ctx.textAlign = 'center';
+            ctx.fillStyle = '#94a3b8';
+            ctx.fillText(formatDuration(w.startSec), x + barW / 2, height - 2);
+            if (w.reps > 0) {
+                ctx.fillStyle = 'white';
+                ctx.fillText(String(w.reps), x + barW / 2, y - 3);
+            }
+        });
+    }, [windows]);
+
+    return <canvas ref={canvasRef} style={{ width: '100%', height: 80, display: 'block' }} />;
+};
+
+const cardTitle: React.CSSProperties = {
+    color: theme.hint, fontSize: 12, margin: '0 0 8px', textTransform: 'uppercase',
+};
+
+const swatch = (color: string, label: string) => (
+    <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4, color: theme.hint, fontSize: 11 }}>
+        <span style={{ width: 8, height: 8, borderRadius: 2, background: color }} />
+        {label}
+    </span>
+);
+
+const average = (values: number[]) => values.reduce((s, v) => s + v, 0) / values.length;
+
+// Tempo chart, reps per window and the fatigue summary for one session
+export const RepTimeline: React.FC<{ reps: RepTiming[]; durationSec: number }> = ({ reps, durationSec }) => {
+    const windows = repsPerWindow(reps, durationSec);
+    const fatigue = fatigueOf(reps, durationSec);
+    const seconds = (ms: number) => t('results.seconds', { value: (ms / 1000).toFixed(1) });
+
+    const stat = (value: string, label: string) => (
+        <div style={{ textAlign: 'center', flex: 1 }}>
+            <div style={{ color: theme.text, fontSize: 16, fontWeight: 'bold' }}>{value}</div>
+            <div style={{ color: theme.hint, fontSize: 11 }}>{label}</div>
+        </div>
+    );
+
+    return (
+        <>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <h3 style={cardTitle}>{t('results.tempo')}</h3>
+                <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+                    {swatch(COLOR_ECCENTRIC, t('results.eccentric'))}
+                    {swatch(COLOR_CONCENTRIC, t('results.concentric'))}
+                </div>
+            </div>
+            <TempoChart reps={reps} />
+            <div style={{ display: 'flex', margin: '8px 0' }}>
+                {stat(seconds(average(reps.map(r => r.eccentricMs))), t('results.eccentric'))}
+                {stat(seconds(average(reps.map(r => r.concentricMs))), t('results.concentric'))}
+                {stat(`${Math.round(Math.min(...reps.map(r => r.minAngle)))}°`, t('results.deepest'))}
+            </div>
+
+            <h3 style={{ ...cardTitle, marginTop: 12 }}>{t('results.perWindow', { sec: REP_WINDOW_SEC })}</h3>
+            <WindowChart windows={windows} />
+            {fatigue && (
+                <p style={{ color: theme.text, fontSize: 13, margin: '8px 0 0', textAlign: 'center' }}>
+                    {t(fatigue.dropPercent > 0 ? 'results.fatigueDrop' : 'results.fatigueHeld', {
+                        percent: fatigue.dropPercent,
+                        first: fatigue.firstWindow,
+                        last: fatigue.lastWindow,
+                    })}
+                    {fatigue.tempoChangePercent !== null && fatigue.tempoChangePercent > 0 && (
+                        <span style={{ color: theme.hint }}>
+                            {' · '}{t('results.tempoSlower', { percent: fatigue.tempoChangePercent })}
+                        </span>
+                    )}
+                </p>
+            )}
+        </>
+    );
+};
+
+const BATTLE_RESULT_LABELS = { won: 'battle.resultWon', lost: 'battle.resultLost', draw: 'battle.resultDraw' } as const;
+
+const card: React.CSSProperties = {
+    width: '100%', maxWidth: 360, margin: '8px 0',
+    background: 'rgba(255,255,255,0.05)', borderRadius: 12, padding: 12,
+    boxSizing: 'border-box',
+};
+
+// A past session reopened from the history lists
+export const WorkoutDetailView: React.FC<{
+    record: WorkoutRecord;
+    onBack: () => void;
+}> = ({ record, onBack }) => {
+    const nativeBack = useBackButton(onBack);
+    const def = getExercise(record.exercise);
+    const isHold = def.kind === 'hold';
+    const avgForm = averageFormScore(record.formScores);
+
+    const stat = (value: string, label: string) => (
+        <div style={{ textAlign: 'center', flex: 1 }}>
+            <div style={{ color: theme.text, fontSize: 22, fontWeight: 'bold' }}>{value}</div>
+            <div style={{ color: theme.hint, fontSize: 12 }}>{label}</div>
+        </div>
+    );
+
+    return (
+        <div style={{
+            position: 'fixed', top: 0, left: 0, right: 0, bottom: 0,
+            background: `linear-gradient(180deg, ${theme.bg} 0%, ${theme.bgSecondary} 100%)`,
+            display: 'flex', flexDirection: 'column', alignItems: 'center',
+            fontFamily: 'system-ui, sans-serif',
+            padding: 20, overflow: 'auto', boxSizing: 'border-box',
+        }}>
+            <div style={{ width: '100%', maxWidth: 360, display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+                {nativeBack ? <span style={{ width: 48 }} /> : (
+                    <button
+                        onClick={onBack}
+                        style={{ background: 'none', border: 'none', color: theme.hint, fontSize: 16, cursor: 'pointer', padding: 0 }}
+                    >
+                        {t('app.back')}
+                    </button>
+                )}
+                <h2 style={{ color: theme.accent, fontSize: 20, margin: '0 auto', fontWeight: 800 }}>
+                    {def.emoji} {t(def.label)}
+                </h2>
+                <span style={{ width: 48 }} />
+            </div>
+            <p style={{ color: theme.hint, fontSize: 13, margin: '0 0 8px' }}>
+                {formatDate(record.date, { dateStyle: 'medium', timeStyle: 'short' })}
+            </p>
+            {record.battle && (
+                <p style={{ color: '#fbbf24', fontSize: 14, fontWeight: 700, margin: '0 0 8px' }}>
+                    {t('battle.detail', {
+                        result: t(BATTLE_RESULT_LABELS[record.battle.result]),
+                        score: isHold ? formatDuration(record.holdSec ?? 0) : record.count,
+                        opponent: isHold ? formatDuration(record.battle.opponentScore) : record.battle.opponentScore,
+                    })}
+                </p>
+            )}
+
+            <div style={{ ...card, display: 'flex' }}>
+                {stat(isHold ? formatDuration(record.holdSec ?? 0) : String(record.count), t(isHold ? 'stats.secondsHeld' : 'stats.reps'))}
+                {stat(formatDuration(record.durationSec), t('results.duration'))}
+                {avgForm !== null && stat(`${avgForm}%`, t('results.form'))}
+            </div>
+            {(record.suspiciousReps ?? 0) > 0 && (
+                <p style={{ color: '#fbbf24', fontSize: 13, margin: '4px 0' }}>
+                    {t('results.trust', { score: record.trustScore ?? 100 })}
+                    {' · '}{t('results.suspicious', { count: record.suspiciousReps ?? 0 })}
+                </p>
+            )}
+
+            {!isHold && (
+                <div style={card}>
+                    {record.reps && record.reps.length > 0
+                        ? <RepTimeline reps={record.reps} durationSec={record.durationSec} />
+                        : <p style={{ color: '#64748b', fontSize: 13, margin: 0, textAlign: 'center' }}>{t('results.noTimeline')}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
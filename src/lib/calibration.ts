@@ -0,0 +1,139 @@
+import { getJointAngle } from './pose';
+import { checkExercisePosition, getExercise, type ExerciseType } from './exercises';
+import { DEFAULT_ENGINE_OPTIONS, type PoseFrame } from './repEngine';
+import type { MessageKey } from './i18n';
+
+// ─── Range-of-Motion Calibration ───
+// The user does a few slow reps; from the lowest and highest joint angles we
+// derive down/up thresholds that fit their body and camera placement.
+
+export interface Calibration {
+    down: number;
+    up: number;
+    minAngle: number;   // Average bottom of the calibration reps
+    maxAngle: number;   // Average top of the calibration reps
+    date: string;
+}
+
+export const CALIBRATION_REPS = 3;
+
+// Threshold placement inside the observed range
+const DOWN_FRACTION = 0.25;     // down = 25% of the way up from the bottom
+const UP_FRACTION = 0.2;        // up = 20% below the top
+const MIN_GAP = 15;             // Never let down/up collapse into each other
+const MIN_ROM = 25;             // Degrees of travel before a calibration rep counts
+
+export const deriveThresholds = (minAngle: number, maxAngle: number): { down: number; up: number } => {
+    const range = maxAngle - minAngle;
+    let down = minAngle + range * DOWN_FRACTION;
+    let up = maxAngle - range * UP_FRACTION;
+    if (up - down < MIN_GAP) {
+        const mid = (up + down) / 2;
+        down = mid - MIN_GAP / 2;
+        up = mid + MIN_GAP / 2;
+    }
+    return { down: Math.round(down), up: Math.round(up) };
+};
+
+export interface CalibrationProgress {
+    reps: number;
+    needed: number;
+    angle: number | null;
+    reason: MessageKey | null;      // Position problem, if any
+    result: Calibration | null;     // Set once all reps are in
+}
+
+export interface Calibrator {
+    process: (frame: PoseFrame) => CalibrationProgress;
+}
+
+export const createCalibrator = (exercise: ExerciseType, needed = CALIBRATION_REPS): Calibrator => {
+    const def = getExercise(exercise);
+    const { smoothFactor } = DEFAULT_ENGINE_OPTIONS;
+
+    let smoothAngle: number | null = null;
+    let phase: 'top' | 'bottom' = 'top';
+    let top = -Infinity;
+    let bottom = Infinity;
+    const cycles: { min: number; max: number }[] = [];
+    let result: Calibration | null = null;
+
+    const progress = (angle: number | null, reason: MessageKey | null): CalibrationProgress =>
+        ({ reps: cycles.length, needed, angle, reason, result });
+
+    const process = ({ landmarks }: PoseFrame): CalibrationProgress => {
+        if (result) return progress(smoothAngle, null);
+        if (!landmarks) return progress(null, def.missingReason);
+
+        const position = checkExercisePosition(def, landmarks);
+        if (!position.ok) return progress(null, position.reason);
+
+        const raw = getJointAngle(landmarks, def.joint.left, def.joint.right);
+        if (raw === null) return progress(null, def.missingReason);
+
+        smoothAngle = smoothAngle === null ? raw : smoothFactor * smoothAngle + (1 - smoothFactor) * raw;
+        const angle = smoothAngle;
+
+        if (phase === 'top') {
+            top = Math.max(top, angle);
+            if (angle < top - MIN_ROM) {
+                phase = 'bottom';
+                bottom = angle;
+            }
+        } else {
+            bottom = Math.min(bottom, angle);
+            // Most of the way back up closes the cycle
+            if (angle > bottom + (top - bottom) * 0.8) {
+                cycles.push({ min: bottom, max: top });
+                phase = 'top';
+                top = angle;
+                bottom = Infinity;
+            }
+        }
+
+        if (cycles.length >= needed) {
+            const minAngle = cycles.reduce((s, c) => s + c.min, 0) / cycles.length;
+            const maxAngle = cycles.reduce((s, c) => s + c.max, 0) / cycles.length;
+            result = {
+                ...deriveThresholds(minAngle, maxAngle),
+                minAngle: Math.round(minAngle),
+                maxAngle: Math.round(maxAngle),
+                date: new Date().toISOString(),
+            };
+        }
+
+        return progress(angle, null);
+    };
+
+    return { process };
+};
+
+// Persisted per Telegram user id (or "guest" outside Telegram)
+const CALIBRATION_KEY = 'pushup_calibration';
+
+type CalibrationStore = Record<string, Partial<Record<ExerciseType, Calibration>>>;
+
+const readStore = (): CalibrationStore => {
+    try {
+        const raw = localStorage.getItem(CALIBRATION_KEY);
+        return raw ? JSON.parse(raw) : {};
+    } catch {
+        return {};
+    }
+};
+
+const userKey = (userId: number | null) => (userId ? String(userId) : 'guest');
+
+export const getCalibration = (userId: number | null, exercise: ExerciseType): Calibration | null =>
+    readStore()[userKey(userId)]?.[exercise] ?? null;
+
+export const saveCalibration = (userId: number | null, exercise: ExerciseType, calibration: Calibration) => {
+    try {
+        const store = readStore();
+        const key = userKey(userId);
+        store[key] = { ...store[key], [exercise]: calibration };
+        localStorage.setItem(CALIBRATION_KEY, JSON.stringify(store));
+    } catch {
+        // Storage might be unavailable
+    }
+};
@@ -0,0 +1,81 @@
+import type { PerformanceTier } from './performanceTier';
+
+// ─── Camera ───
+// Which camera to open and at what size. The front camera is shown mirrored, like
+// every selfie view; the rear camera isn't. Browsers don't always say which way a
+// camera faces (most desktop webcams report nothing), so unknown cameras are
+// treated as front-facing.
+
+export type CameraFacing = 'user' | 'environment';
+
+export type ResolutionId = 'auto' | '480p' | '720p' | '1080p';
+
+// 'auto' follows the performance tier (see performanceTier.ts)
+export const RESOLUTIONS: { id: ResolutionId; width: number; height: number }[] = [
+    { id: 'auto', width: 0, height: 0 },
+    { id: '480p', width: 640, height: 480 },
+    { id: '720p', width: 1280, height: 720 },
+    { id: '1080p', width: 1920, height: 1080 },
+];
+
+export interface CameraChoice {
+    deviceId: string | null;    // A specific camera from the picker; null picks by facing
+    facing: CameraFacing;
+    resolution: ResolutionId;
+}
+
+export const DEFAULT_CAMERA: CameraChoice = { deviceId: null, facing: 'user', resolution: 'auto' };
+
+export interface CameraDevice {
+    deviceId: string;
+    label: string;          // Empty until the user has granted camera access once
+}
+
+export interface OpenCamera {
+    stream: MediaStream;
+    facing: CameraFacing;   // What the camera reports, or our best guess
+    mirrored: boolean;
+}
+
+export const listCameras = async (): Promise<CameraDevice[]> => {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+        .filter(d => d.kind === 'videoinput' && d.deviceId)
+        .map(d => ({ deviceId: d.deviceId, label: d.label }));
+};
+
+// The chosen resolution overrides the tier's; the tier still picks the model and frame skipping
+export const withResolution = (tier: PerformanceTier, resolution: ResolutionId): PerformanceTier => {
+    const size = RESOLUTIONS.find(r => r.id === resolution);
+    return size && size.id !== 'auto' ? { ...tier, width: size.width, height: size.height } : tier;
+};
+
+const requestStream = (choice: CameraChoice, width: number, height: number) =>
+    navigator.mediaDevices.getUserMedia({
+        video: {
+            ...(choice.deviceId ? { deviceId: { exact: choice.deviceId } } : { facingMode: choice.facing }),
+            width,
+            height,
+        },
+        audio: false,
+    });
+
+export const openCamera = async (choice: CameraChoice, tier: PerformanceTier): Promise<OpenCamera> => {
+    const { width, height } = withResolution(tier, choice.resolution);
+    let stream: MediaStream;
+    try {
+        stream = await requestStream(choice, width, height);
+    } catch (err: unknown) {
+        // The picked camera is gone (unplugged, or ids reset) — fall back to the facing
+        const missing = err instanceof Error && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError');
+        if (!choice.deviceId || !missing) throw err;
+        stream = await requestStream({ ...choice, deviceId: null }, width, height);
+    }
+
+    const reported = stream.getVideoTracks()[0]?.getSettings().facingMode;
+    const facing: CameraFacing = reported === 'environment' ? 'environment'
+        : reported === 'user' ? 'user'
+            : choice.deviceId ? 'user' : choice.facing;
+    return { stream, facing, mirrored: facing === 'user' };
+};
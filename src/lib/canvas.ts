@@ -0,0 +1,10 @@
+// Size a canvas for the device pixel ratio and hand back a context in CSS pixels
+export const setupCanvas = (canvas: HTMLCanvasElement) => {
+    const dpr = window.devicePixelRatio || 1;
+    const { width, height } = canvas.getBoundingClientRect();
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    const ctx = canvas.getContext('2d');
+    ctx?.scale(dpr, dpr);
+    return { ctx, width, height };
+};
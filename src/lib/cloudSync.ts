@@ -0,0 +1,187 @@
+import WebApp from '@twa-dev/sdk';
+import { isExerciseType } from './exercises';
+import { importWorkouts, queryWorkouts, type ImportSummary, type NewWorkoutRecord, type WorkoutRecord } from './history';
+
+// ─── Telegram CloudStorage sync ───
+// Mirrors the user's history into Telegram's per-user CloudStorage so it follows them
+// across phone, tablet and Desktop without our own backend.
+//
+// CloudStorage allows 1024 keys of ≤128 chars, each holding ≤4096 chars. Records are
+// summarised to one short line (per-rep form scores become their average; interval
+// breakdowns stay on the device that recorded them) and packed oldest-first into
+// `h_<n>` chunks, with `h_meta` written last to describe the set.
+//
+// Merging is a union keyed on the workout's end time: records only in the cloud are
+// imported locally, records only local are added to the cloud. Two devices syncing at
+// once can drop each other's newest line from the cloud, but each still has it locally
+// and puts it back on its next sync.
+
+const CHUNK_PREFIX = 'h_';
+const META_KEY = 'h_meta';
+const MAX_VALUE_LENGTH = 4096;
+const MAX_CHUNKS = 1000;            // Leaves a few of the 1024 keys for anything else
+const FORMAT_VERSION = 1;
+const RECORD_SEPARATOR = ';';
+
+interface CloudMeta {
+    v: number;
+    chunks: number;
+    updated: string;
+}
+
+export const isCloudSyncAvailable = () => {
+    try {
+        // CloudStorage arrived in Bot API 6.9; outside Telegram initData is empty
+        return Boolean(WebApp.initData) && WebApp.isVersionAtLeast('6.9');
+    } catch {
+        return false;
+    }
+};
+
+// ─── Promise wrappers around the callback API ───
+
+const call = <T>(fn: (cb: (error: string | null, result?: T) => unknown) => void) =>
+    new Promise<T>((resolve, reject) => {
+        fn((error, result) => {
+            if (error) reject(new Error(`CloudStorage: ${error}`));
+            else resolve(result as T);
+        });
+    });
+
+const getItems = (keys: string[]) =>
+    call<Record<string, string>>(cb => WebApp.CloudStorage.getItems(keys, cb));
+const setItem = (key: string, value: string) =>
+    call<boolean>(cb => WebApp.CloudStorage.setItem(key, value, cb));
+const removeItems = (keys: string[]) =>
+    call<boolean>(cb => WebApp.CloudStorage.removeItems(keys, cb));
+
+// ─── Compact encoding ───
+// time(base36 ms),exercise,count,durationSec,holdSec,noReps,avgForm — blanks for absent fields
+
+const encodeRecord = (r: Pick<WorkoutRecord, 'date' | 'exercise' | 'count' | 'durationSec' | 'holdSec' | 'noReps' | 'formScores'>) => {
+    const avgForm = r.formScores?.length
+        ? Math.round(r.formScores.reduce((s, v) => s + v, 0) / r.formScores.length)
+        : undefined;
+    return [
+        Date.parse(r.date).toString(36),
+        r.exercise,
+        r.count,
+        r.durationSec,
+        r.holdSec ?? '',
+        r.noReps ?? '',
+        avgForm ?? '',
+    ].join(',');
+};
+
+const optionalNumber = (v: string) => (v === '' ? undefined : Number(v));
+
+const decodeRecord = (line: string, userId: number, userName: string): NewWorkoutRecord | null => {
+    const [time, exercise, count, durationSec, holdSec, noReps, avgForm] = line.split(',');
+    const ms = parseInt(time, 36);
+    if (!Number.isFinite(ms) || !isExerciseType(exercise)) return null;
+    if (!Number.isFinite(Number(count)) || !Number.isFinite(Number(durationSec))) return null;
+
+    const hold = optionalNumber(holdSec ?? '');
+    const misses = optionalNumber(noReps ?? '');
+    const form = optionalNumber(avgForm ?? '');
+    return {
+        userId,
+        userName,
+        date: new Date(ms).toISOString(),
+        exercise,
+        count: Number(count),
+        durationSec: Number(durationSec),
+        ...(hold !== undefined ? { holdSec: hold } : {}),
+        ...(misses !== undefined ? { noReps: misses } : {}),
+        ...(form !== undefined ? { formScores: [form] } : {}),
+    };
+};
+
+// Pack lines into as few ≤4096-char values as possible, preserving order
+const packChunks = (lines: string[]): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+    for (const line of lines) {
+        const next = current ? current + RECORD_SEPARATOR + line : line;
+        if (next.length > MAX_VALUE_LENGTH) {
+            chunks.push(current);
+            current = line;
+        } else {
+            current = next;
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+};
+
+const chunkKey = (i: number) => `${CHUNK_PREFIX}${i}`;
+
+const readCloud = async (): Promise<{ meta: CloudMeta | null; chunks: string[] }> => {
+    const { [META_KEY]: rawMeta } = await getItems([META_KEY]);
+    if (!rawMeta) return { meta: null, chunks: [] };
+
+    const meta = JSON.parse(rawMeta) as CloudMeta;
+    if (meta.v > FORMAT_VERSION) throw new Error('Cloud history was written by a newer version of the app');
+    const keys = Array.from({ length: meta.chunks }, (_, i) => chunkKey(i));
+    const values = keys.length > 0 ? await getItems(keys) : {};
+    return { meta, chunks: keys.map(k => values[k] ?? '') };
+};
+
+// Rewrites only the chunks whose contents changed, then the meta, then drops leftovers
+const writeCloud = async (previous: string[], chunks: string[]) => {
+    if (previous.length === chunks.length && previous.every((c, i) => c === chunks[i])) return;
+    for (let i = 0; i < chunks.length; i++) {
+        if (previous[i] !== chunks[i]) await setItem(chunkKey(i), chunks[i]);
+    }
+    const meta: CloudMeta = { v: FORMAT_VERSION, chunks: chunks.length, updated: new Date().toISOString() };
+    await setItem(META_KEY, JSON.stringify(meta));
+    if (previous.length > chunks.length) {
+        await removeItems(previous.slice(chunks.length).map((_, i) => chunkKey(chunks.length + i)));
+    }
+};
+
+export interface CloudSyncSummary extends ImportSummary {
+    uploaded: number;       // Local records that weren't in the cloud yet
+}
+
+// Syncs triggered close together (app start, then a finished workout) run one after another
+let queue: Promise<unknown> = Promise.resolve();
+
+// Two-way merge of this user's history with CloudStorage. Resolves null when unavailable.
+export const syncCloudHistory = (userId: number, userName: string): Promise<CloudSyncSummary | null> => {
+    if (!isCloudSyncAvailable()) return Promise.resolve(null);
+    const run = queue.then(() => mergeWithCloud(userId, userName));
+    queue = run.catch(() => undefined);
+    return run;
+};
+
+const mergeWithCloud = async (userId: number, userName: string): Promise<CloudSyncSummary> => {
+    const [{ chunks: remoteChunks }, local] = await Promise.all([readCloud(), queryWorkouts({ userId })]);
+
+    // Keyed by end time in ms, which survives the base36 round trip exactly
+    const remote = new Map<number, string>();
+    for (const line of remoteChunks.flatMap(c => (c ? c.split(RECORD_SEPARATOR) : []))) {
+        const time = parseInt(line.split(',')[0], 36);
+        if (Number.isFinite(time)) remote.set(time, line);
+    }
+    const localTimes = new Set(local.map(r => Date.parse(r.date)));
+
+    // Cloud → device
+    const incoming = [...remote.entries()]
+        .filter(([time]) => !localTimes.has(time))
+        .map(([, line]) => decodeRecord(line, userId, userName))
+        .filter((r): r is NewWorkoutRecord => r !== null);
+    const imported = incoming.length > 0 ? await importWorkouts(incoming) : { merged: 0, skipped: 0 };
+
+    // Device → cloud. The local copy wins when both have the same workout.
+    const outgoing = local.filter(r => !remote.has(Date.parse(r.date)));
+    for (const r of local) remote.set(Date.parse(r.date), encodeRecord(r));
+
+    const lines = [...remote.entries()].sort(([a], [b]) => a - b).map(([, line]) => line);
+    let chunks = packChunks(lines);
+    // Out of keys — keep the most recent history
+    if (chunks.length > MAX_CHUNKS) chunks = chunks.slice(-MAX_CHUNKS);
+    await writeCloud(remoteChunks, chunks);
+
+    return { ...imported, uploaded: outgoing.length };
+};
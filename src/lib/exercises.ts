@@ -0,0 +1,358 @@
+import { LM, isVisible, midpoint, type JointTriplet, type Landmark } from './pose';
+import { bodyLineMetric, kneeTravelMetric, torsoLeanMetric, type FormMetric } from './formScore';
+import { bodyDropCheck, hipDropCheck, hipRiseCheck, pressCheck, shoulderRiseCheck, type MovementCheck } from './repVerifier';
+import type { MessageKey } from './i18n';
+
+// ─── Exercise Registry ───
+// Everything the frame loop needs to know about an exercise lives here, so a
+// new movement is one entry in EXERCISES rather than another branch in onResults.
+
+// `reason` is a catalogue key, translated where it's shown
+export type PositionCheck = { ok: true } | { ok: false; reason: MessageKey };
+
+export interface ExerciseDefinition {
+    // 'reps' counts down/up cycles; 'hold' times how long the position is kept
+    kind: 'reps' | 'hold';
+    label: MessageKey;        // Picker / button label, e.g. "Push-ups"
+    shareLabel: MessageKey;   // Lower-case noun used in share text, pluralised by count
+    emoji: string;
+    heroImage: string;
+    // Landmarks that must be visible before the position check runs
+    requiredLandmarks: number[];
+    missingReason: MessageKey;
+    checkPosition: (landmarks: Landmark[]) => PositionCheck;
+    // Joint whose angle drives the rep state machine
+    joint: { left: JointTriplet; right: JointTriplet; labelLandmark: number };
+    // Smoothed angle must drop below `down` then rise above `up` for one rep;
+    // `rest` seeds the smoothing filter when the body is first detected.
+    // Hold exercises only use `rest`.
+    thresholds: { down: number; up: number; rest: number };
+    // Exercise-specific checks that feed the per-rep form score
+    formMetrics: FormMetric[];
+    // Whole-body movement a rep must show to be counted (see repVerifier.ts)
+    movementChecks: MovementCheck[];
+    // Catalogue keys, translated when shown
+    status: {
+        ready: MessageKey;      // Shown once the AI has loaded
+        go: MessageKey;         // Shown when the body is first detected
+        down?: MessageKey;      // Shown when the bottom of the rep is reached (reps only)
+        noRep?: MessageKey;     // Shown when a descent turns back before reaching depth (reps only)
+        setup: MessageKey;      // Hint on the countdown screen
+    };
+}
+
+const ELBOW_LEFT: JointTriplet = [LM.LEFT_SHOULDER, LM.LEFT_ELBOW, LM.LEFT_WRIST];
+const ELBOW_RIGHT: JointTriplet = [LM.RIGHT_SHOULDER, LM.RIGHT_ELBOW, LM.RIGHT_WRIST];
+const KNEE_LEFT: JointTriplet = [LM.LEFT_HIP, LM.LEFT_KNEE, LM.LEFT_ANKLE];
+const KNEE_RIGHT: JointTriplet = [LM.RIGHT_HIP, LM.RIGHT_KNEE, LM.RIGHT_ANKLE];
+const HIP_LEFT: JointTriplet = [LM.LEFT_SHOULDER, LM.LEFT_HIP, LM.LEFT_KNEE];
+const HIP_RIGHT: JointTriplet = [LM.RIGHT_SHOULDER, LM.RIGHT_HIP, LM.RIGHT_KNEE];
+
+const OK: PositionCheck = { ok: true };
+
+// How far the body line may bend before a plank stops counting (≈20°)
+const PLANK_MAX_PENALTY = 0.4;
+
+// Check if body is in a valid pushup/plank position
+export const isInPushupPosition = (landmarks: Landmark[]): PositionCheck => {
+    const shoulder = midpoint(landmarks, LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER);
+    const hip = midpoint(landmarks, LM.LEFT_HIP, LM.RIGHT_HIP);
+
+    const torsoHeightDiff = Math.abs(shoulder.y - hip.y);
+    if (torsoHeightDiff > 0.35) {
+        return { ok: false, reason: 'position.notHorizontal' };
+    }
+
+    const wrist = midpoint(landmarks, LM.LEFT_WRIST, LM.RIGHT_WRIST);
+    const wristAboveShoulder = shoulder.y - wrist.y;
+    if (wristAboveShoulder > 0.25) {
+        return { ok: false, reason: 'position.handsTooHigh' };
+    }
+
+    const horizontalSpread = Math.abs(shoulder.x - hip.x);
+    const verticalSpread = Math.abs(shoulder.y - hip.y);
+    if (horizontalSpread < 0.03 && verticalSpread > 0.1) {
+        return { ok: false, reason: 'position.standingPushup' };
+    }
+
+    return OK;
+};
+
+// Push-up position plus a straight shoulder–hip–ankle line
+export const isInPlankPosition = (landmarks: Landmark[]): PositionCheck => {
+    const base = isInPushupPosition(landmarks);
+    if (!base.ok) return base;
+
+    const line = bodyLineMetric.measure(landmarks);
+    if (!line) return { ok: false, reason: 'position.noFeet' };
+    if (line.penalty > PLANK_MAX_PENALTY) return { ok: false, reason: line.cue };
+
+    return OK;
+};
+
+// Check if body is upright with legs in frame (squats, lunges)
+export const isStandingPosition = (landmarks: Landmark[]): PositionCheck => {
+    const shoulder = midpoint(landmarks, LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER);
+    const hip = midpoint(landmarks, LM.LEFT_HIP, LM.RIGHT_HIP);
+
+    // Body should be more vertical than horizontal
+    if (shoulder.y > hip.y) {
+        return { ok: false, reason: 'position.standUp' };
+    }
+
+    // Check knees are visible
+    const kneeOk = isVisible(landmarks[LM.LEFT_KNEE]) || isVisible(landmarks[LM.RIGHT_KNEE]);
+    const ankleOk = isVisible(landmarks[LM.LEFT_ANKLE]) || isVisible(landmarks[LM.RIGHT_ANKLE]);
+    if (!kneeOk || !ankleOk) {
+        return { ok: false, reason: 'position.noLegs' };
+    }
+
+    return OK;
+};
+
+// Lying on the back with knees bent (sit-ups, glute bridges)
+const isLyingKneesBent = (landmarks: Landmark[]): PositionCheck => {
+    const hip = midpoint(landmarks, LM.LEFT_HIP, LM.RIGHT_HIP);
+    const knee = midpoint(landmarks, LM.LEFT_KNEE, LM.RIGHT_KNEE);
+    const ankle = midpoint(landmarks, LM.LEFT_ANKLE, LM.RIGHT_ANKLE);
+
+    const horizontalSpread = Math.abs(hip.x - ankle.x);
+    if (horizontalSpread < 0.1) {
+        return { ok: false, reason: 'position.sideOn' };
+    }
+    if (knee.y > hip.y) {
+        return { ok: false, reason: 'position.bendKnees' };
+    }
+
+    return OK;
+};
+
+export const isInSitupPosition = (landmarks: Landmark[]): PositionCheck => isLyingKneesBent(landmarks);
+
+export const isInBridgePosition = (landmarks: Landmark[]): PositionCheck => {
+    const lying = isLyingKneesBent(landmarks);
+    if (!lying.ok) return lying;
+
+    // Shoulders stay on the floor — if they rise well above the hips it's a sit-up
+    const shoulder = midpoint(landmarks, LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER);
+    const hip = midpoint(landmarks, LM.LEFT_HIP, LM.RIGHT_HIP);
+    if (hip.y - shoulder.y > 0.2) {
+        return { ok: false, reason: 'position.shouldersDown' };
+    }
+
+    return OK;
+};
+
+export const isInShoulderPressPosition = (landmarks: Landmark[]): PositionCheck => {
+    const shoulder = midpoint(landmarks, LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER);
+    const hip = midpoint(landmarks, LM.LEFT_HIP, LM.RIGHT_HIP);
+    if (shoulder.y > hip.y) {
+        return { ok: false, reason: 'position.sitUpStraight' };
+    }
+
+    const wrist = midpoint(landmarks, LM.LEFT_WRIST, LM.RIGHT_WRIST);
+    const elbow = midpoint(landmarks, LM.LEFT_ELBOW, LM.RIGHT_ELBOW);
+    if (wrist.y > elbow.y) {
+        return { ok: false, reason: 'position.raiseHands' };
+    }
+
+    return OK;
+};
+
+export const EXERCISES = {
+    pushups: {
+        kind: 'reps',
+        label: 'exercise.pushups.label',
+        shareLabel: 'exercise.pushups.noun',
+        emoji: '💪',
+        heroImage: '/hero.png',
+        requiredLandmarks: [
+            LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER,
+            LM.LEFT_ELBOW, LM.LEFT_WRIST,
+            LM.LEFT_HIP, LM.RIGHT_HIP,
+        ],
+        missingReason: 'position.noBody',
+        checkPosition: isInPushupPosition,
+        joint: { left: ELBOW_LEFT, right: ELBOW_RIGHT, labelLandmark: LM.LEFT_ELBOW },
+        thresholds: { down: 110, up: 145, rest: 160 },
+        formMetrics: [bodyLineMetric],
+        movementChecks: [bodyDropCheck],
+        status: {
+            ready: 'exercise.pushups.ready',
+            go: 'exercise.pushups.go',
+            down: 'exercise.pushups.down',
+            noRep: 'exercise.pushups.noRep',
+            setup: 'exercise.pushups.setup',
+        },
+    },
+    squats: {
+        kind: 'reps',
+        label: 'exercise.squats.label',
+        shareLabel: 'exercise.squats.noun',
+        emoji: '🦵',
+        heroImage: '/hero-squats.png',
+        requiredLandmarks: [
+            LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER,
+            LM.LEFT_HIP, LM.RIGHT_HIP,
+            LM.LEFT_KNEE, LM.LEFT_ANKLE,
+        ],
+        missingReason: 'position.noBodyStepBack',
+        checkPosition: isStandingPosition,
+        joint: { left: KNEE_LEFT, right: KNEE_RIGHT, labelLandmark: LM.LEFT_KNEE },
+        thresholds: { down: 75, up: 155, rest: 170 },
+        formMetrics: [kneeTravelMetric, torsoLeanMetric],
+        movementChecks: [hipDropCheck],
+        status: {
+            ready: 'exercise.squats.ready',
+            go: 'exercise.squats.go',
+            down: 'exercise.squats.down',
+            noRep: 'exercise.squats.noRep',
+            setup: 'exercise.squats.setup',
+        },
+    },
+    lunges: {
+        kind: 'reps',
+        label: 'exercise.lunges.label',
+        shareLabel: 'exercise.lunges.noun',
+        emoji: '🚶',
+        heroImage: '/hero-squats.png',
+        requiredLandmarks: [
+            LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER,
+            LM.LEFT_HIP, LM.RIGHT_HIP,
+            LM.LEFT_KNEE, LM.LEFT_ANKLE,
+        ],
+        missingReason: 'position.noBodyStepBack',
+        checkPosition: isStandingPosition,
+        joint: { left: KNEE_LEFT, right: KNEE_RIGHT, labelLandmark: LM.LEFT_KNEE },
+        thresholds: { down: 100, up: 155, rest: 170 },
+        formMetrics: [torsoLeanMetric],
+        movementChecks: [hipDropCheck],
+        status: {
+            ready: 'exercise.lunges.ready',
+            go: 'exercise.lunges.go',
+            down: 'exercise.lunges.down',
+            noRep: 'exercise.lunges.noRep',
+            setup: 'exercise.lunges.setup',
+        },
+    },
+    situps: {
+        kind: 'reps',
+        label: 'exercise.situps.label',
+        shareLabel: 'exercise.situps.noun',
+        emoji: '🧘',
+        heroImage: '/hero.png',
+        requiredLandmarks: [
+            LM.LEFT_SHOULDER, LM.LEFT_HIP,
+            LM.LEFT_KNEE, LM.LEFT_ANKLE,
+        ],
+        missingReason: 'position.noBodyMovePhone',
+        checkPosition: isInSitupPosition,
+        joint: { left: HIP_LEFT, right: HIP_RIGHT, labelLandmark: LM.LEFT_HIP },
+        thresholds: { down: 70, up: 115, rest: 130 },
+        formMetrics: [],
+        movementChecks: [shoulderRiseCheck],
+        status: {
+            ready: 'exercise.situps.ready',
+            go: 'exercise.situps.go',
+            down: 'exercise.situps.down',
+            noRep: 'exercise.situps.noRep',
+            setup: 'exercise.situps.setup',
+        },
+    },
+    glute_bridges: {
+        kind: 'reps',
+        label: 'exercise.glute_bridges.label',
+        shareLabel: 'exercise.glute_bridges.noun',
+        emoji: '🌉',
+        heroImage: '/hero.png',
+        requiredLandmarks: [
+            LM.LEFT_SHOULDER, LM.LEFT_HIP,
+            LM.LEFT_KNEE, LM.LEFT_ANKLE,
+        ],
+        missingReason: 'position.noBodyMovePhone',
+        checkPosition: isInBridgePosition,
+        joint: { left: HIP_LEFT, right: HIP_RIGHT, labelLandmark: LM.LEFT_HIP },
+        // Hips start low (bent) and the rep finishes when they're fully extended
+        thresholds: { down: 140, up: 165, rest: 130 },
+        formMetrics: [],
+        movementChecks: [hipRiseCheck],
+        status: {
+            ready: 'exercise.glute_bridges.ready',
+            go: 'exercise.glute_bridges.go',
+            down: 'exercise.glute_bridges.down',
+            noRep: 'exercise.glute_bridges.noRep',
+            setup: 'exercise.glute_bridges.setup',
+        },
+    },
+    shoulder_press: {
+        kind: 'reps',
+        label: 'exercise.shoulder_press.label',
+        shareLabel: 'exercise.shoulder_press.noun',
+        emoji: '🏋️',
+        heroImage: '/hero.png',
+        requiredLandmarks: [
+            LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER,
+            LM.LEFT_ELBOW, LM.RIGHT_ELBOW,
+            LM.LEFT_WRIST, LM.RIGHT_WRIST,
+        ],
+        missingReason: 'position.noArms',
+        checkPosition: isInShoulderPressPosition,
+        joint: { left: ELBOW_LEFT, right: ELBOW_RIGHT, labelLandmark: LM.LEFT_ELBOW },
+        thresholds: { down: 95, up: 155, rest: 90 },
+        formMetrics: [torsoLeanMetric],
+        movementChecks: [pressCheck],
+        status: {
+            ready: 'exercise.shoulder_press.ready',
+            go: 'exercise.shoulder_press.go',
+            down: 'exercise.shoulder_press.down',
+            noRep: 'exercise.shoulder_press.noRep',
+            setup: 'exercise.shoulder_press.setup',
+        },
+    },
+    plank: {
+        kind: 'hold',
+        label: 'exercise.plank.label',
+        shareLabel: 'exercise.plank.noun',
+        emoji: '🧱',
+        heroImage: '/hero.png',
+        requiredLandmarks: [
+            LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER,
+            LM.LEFT_HIP, LM.RIGHT_HIP,
+            LM.LEFT_ANKLE,
+        ],
+        missingReason: 'position.noBodyMovePhone',
+        checkPosition: isInPlankPosition,
+        // Body line angle, shown next to the hip
+        joint: {
+            left: [LM.LEFT_SHOULDER, LM.LEFT_HIP, LM.LEFT_ANKLE],
+            right: [LM.RIGHT_SHOULDER, LM.RIGHT_HIP, LM.RIGHT_ANKLE],
+            labelLandmark: LM.LEFT_HIP,
+        },
+        thresholds: { down: 0, up: 0, rest: 180 },
+        formMetrics: [],
+        movementChecks: [],
+        status: {
+            ready: 'exercise.plank.ready',
+            go: 'exercise.plank.go',
+            setup: 'exercise.plank.setup',
+        },
+    },
+} satisfies Record<string, ExerciseDefinition>;
+
+export type ExerciseType = keyof typeof EXERCISES;
+
+export const EXERCISE_IDS = Object.keys(EXERCISES) as ExerciseType[];
+
+// Own keys only — `in` would also accept "constructor", "toString"...
+export const isExerciseType = (id: unknown): id is ExerciseType =>
+    typeof id === 'string' && Object.hasOwn(EXERCISES, id);
+
+// Records saved before the registry existed have no `exercise` — they were push-ups
+export const getExercise = (id: ExerciseType | undefined): ExerciseDefinition =>
+    isExerciseType(id) ? EXERCISES[id] : EXERCISES.pushups;
+
+// Required landmarks first, then the exercise's own geometry check
+export const checkExercisePosition = (def: ExerciseDefinition, landmarks: Landmark[]): PositionCheck =>
+    def.requiredLandmarks.every(i => isVisible(landmarks[i]))
+        ? def.checkPosition(landmarks)
+        : { ok: false, reason: def.missingReason };
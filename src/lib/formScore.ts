@@ -0,0 +1,174 @@
+import type { MessageKey } from './i18n';
+import { LM, calcAngle, isVisible, type Landmark } from './pose';
+
+// ─── Form Scoring ───
+// Each rep gets a 0–100 score built from depth, tempo and the exercise's own
+// form metrics (body line, knee travel, torso lean...).
+
+export interface FormFault {
+    penalty: number;    // 0 = perfect, 1 = as bad as it gets
+    cue: MessageKey;    // What to tell the user when this is the worst fault
+}
+
+export interface FormMetric {
+    id: string;
+    // Sampled on every counted frame; null when the landmarks aren't visible
+    measure: (landmarks: Landmark[]) => FormFault | null;
+}
+
+export interface RepQuality {
+    score: number;                      // 0–100
+    depth: number;                      // 0–1
+    tempo: number;                      // 0–1
+    metrics: Record<string, number>;    // metric id → 0–1
+    minAngle: number;
+    durationMs: number;
+    cue: MessageKey | null;             // Worst fault, if any dragged the score down
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Pick whichever side of the body the camera sees best
+const pickSide = (landmarks: Landmark[], left: number[], right: number[]): Landmark[] | null => {
+    if (left.every(i => isVisible(landmarks[i]))) return left.map(i => landmarks[i]);
+    if (right.every(i => isVisible(landmarks[i]))) return right.map(i => landmarks[i]);
+    return null;
+};
+
+// Push-ups / planks: shoulder–hip–ankle should be a straight line
+export const bodyLineMetric: FormMetric = {
+    id: 'bodyLine',
+    measure: (landmarks) => {
+        const side = pickSide(landmarks,
+            [LM.LEFT_SHOULDER, LM.LEFT_HIP, LM.LEFT_ANKLE],
+            [LM.RIGHT_SHOULDER, LM.RIGHT_HIP, LM.RIGHT_ANKLE]);
+        if (!side) return null;
+        const [shoulder, hip, ankle] = side;
+
+        const deviation = 180 - calcAngle(shoulder, hip, ankle);
+        // Where the hip should be if the body were straight
+        const t = (hip.x - shoulder.x) / ((ankle.x - shoulder.x) || 1e-6);
+        const lineY = shoulder.y + t * (ankle.y - shoulder.y);
+        const sagging = hip.y > lineY;   // Image y grows downwards
+
+        return {
+            penalty: clamp01((deviation - 10) / 25),
+            cue: sagging ? 'cue.hipsSagging' : 'cue.hipsTooHigh',
+        };
+    },
+};
+
+// Squats / lunges: knee shouldn't shoot far past the ankle
+export const kneeTravelMetric: FormMetric = {
+    id: 'kneeTravel',
+    measure: (landmarks) => {
+        const side = pickSide(landmarks,
+            [LM.LEFT_HIP, LM.LEFT_KNEE, LM.LEFT_ANKLE],
+            [LM.RIGHT_HIP, LM.RIGHT_KNEE, LM.RIGHT_ANKLE]);
+        if (!side) return null;
+        const [hip, knee, ankle] = side;
+
+        const thigh = Math.hypot(hip.x - knee.x, hip.y - knee.y) || 1e-6;
+        const travel = Math.abs(knee.x - ankle.x) / thigh;
+        return { penalty: clamp01((travel - 0.35) / 0.4), cue: 'cue.kneesForward' };
+    },
+};
+
+// Torso angle from vertical — some lean is fine at the bottom of a squat
+export const torsoLeanMetric: FormMetric = {
+    id: 'torsoLean',
+    measure: (landmarks) => {
+        const side = pickSide(landmarks,
+            [LM.LEFT_SHOULDER, LM.LEFT_HIP],
+            [LM.RIGHT_SHOULDER, LM.RIGHT_HIP]);
+        if (!side) return null;
+        const [shoulder, hip] = side;
+
+        const lean = Math.abs(Math.atan2(shoulder.x - hip.x, hip.y - shoulder.y)) * 180 / Math.PI;
+        return { penalty: clamp01((lean - 40) / 30), cue: 'cue.chestUp' };
+    },
+};
+
+// Reps faster than this lose tempo points
+const GOOD_TEMPO_MS = 1000;
+const MIN_TEMPO_MS = 400;
+
+export interface FormTracker {
+    sample: (landmarks: Landmark[], angle: number) => void;
+    finishRep: (durationMs: number) => RepQuality;
+    reset: () => void;
+}
+
+export const createFormTracker = (
+    metrics: FormMetric[],
+    thresholds: { down: number; up: number },
+): FormTracker => {
+    let minAngle = Infinity;
+    let sums: Record<string, { total: number; frames: number; worst: number; cue: MessageKey }> = {};
+
+    const sample = (landmarks: Landmark[], angle: number) => {
+        minAngle = Math.min(minAngle, angle);
+        metrics.forEach(m => {
+            const fault = m.measure(landmarks);
+            if (!fault) return;
+            const s = sums[m.id] ?? { total: 0, frames: 0, worst: 0, cue: fault.cue };
+            s.total += fault.penalty;
+            s.frames++;
+            // Keep the cue from the worst frame
+            if (fault.penalty >= s.worst) {
+                s.worst = fault.penalty;
+                s.cue = fault.cue;
+            }
+            sums[m.id] = s;
+        });
+    };
+
+    const finishRep = (durationMs: number): RepQuality => {
+        const { down, up } = thresholds;
+        // Full marks 10° past the down threshold
+        const depth = clamp01((up - minAngle) / (up - (down - 10)));
+        const tempo = clamp01((durationMs - MIN_TEMPO_MS) / (GOOD_TEMPO_MS - MIN_TEMPO_MS)) * 0.6 + 0.4;
+
+        const metricScores: Record<string, number> = {};
+        const faults: { score: number; cue: MessageKey }[] = [
+            { score: depth, cue: 'cue.goDeeper' },
+            { score: tempo, cue: 'cue.slowDown' },
+        ];
+        Object.entries(sums).forEach(([id, s]) => {
+            const score = 1 - s.total / s.frames;
+            metricScores[id] = score;
+            faults.push({ score, cue: s.cue });
+        });
+
+        // Depth 40%, tempo 20%, exercise-specific metrics share the rest
+        const metricValues = Object.values(metricScores);
+        const combined = metricValues.length > 0
+            ? depth * 0.4 + tempo * 0.2 + (metricValues.reduce((a, b) => a + b, 0) / metricValues.length) * 0.4
+            : depth * 0.65 + tempo * 0.35;
+
+        const worst = faults.reduce((a, b) => (b.score < a.score ? b : a));
+
+        const quality: RepQuality = {
+            score: Math.round(combined * 100),
+            depth,
+            tempo,
+            metrics: metricScores,
+            minAngle: Number.isFinite(minAngle) ? minAngle : up,
+            durationMs,
+            cue: worst.score < 0.7 ? worst.cue : null,
+        };
+
+        reset();
+        return quality;
+    };
+
+    const reset = () => {
+        minAngle = Infinity;
+        sums = {};
+    };
+
+    return { sample, finishRep, reset };
+};
+
+export const averageFormScore = (scores: number[] | undefined): number | null =>
+    scores && scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : null;
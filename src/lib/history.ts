@@ -0,0 +1,234 @@
+import { isExerciseType, type ExerciseType } from './exercises';
+import type { IntervalResult, WorkoutMode } from './workoutModes';
+
+// ─── Workout History (IndexedDB) ───
+// Records are stored one per row with a schema version, so old shapes can be
+// migrated on read instead of every consumer coping with optional fields.
+
+export const SCHEMA_VERSION = 2;
+
+// One counted rep, for the tempo timeline
+export interface RepTiming {
+    atMs: number;           // When the rep finished, from the start of the workout
+    eccentricMs: number;    // Top → lowest point
+    concentricMs: number;   // Lowest point → back at the top
+    minAngle: number;       // Deepest joint angle reached, in degrees
+}
+
+// Battle mode: two people, one camera, one record each with the same id
+export interface BattleLink {
+    id: string;
+    player: 0 | 1;          // 0 is this device's user (left of the screen), 1 their rival
+    opponentScore: number;  // The other player's reps, or seconds held
+    result: 'won' | 'lost' | 'draw';
+}
+
+export interface WorkoutRecord {
+    id?: number;            // Assigned by IndexedDB on insert
+    schemaVersion: number;
+    userId: number | null;
+    userName: string;
+    count: number;
+    date: string;           // ISO timestamp of when the workout ended
+    durationSec: number;
+    exercise: ExerciseType;
+    formScores?: number[];  // 0–100 per rep, in order
+    noReps?: number;        // Descents that turned back before reaching depth
+    mode?: WorkoutMode;     // Absent for open-ended sessions
+    intervals?: IntervalResult[];
+    holdSec?: number;       // Seconds under correct position (hold exercises)
+    reps?: RepTiming[];     // Per-rep timeline, in order
+    suspiciousReps?: number;    // Reps rejected by verification, not in `count`
+    trustScore?: number;    // 0–100, the share of reps that passed verification
+    battle?: BattleLink;
+}
+
+export type NewWorkoutRecord = Omit<WorkoutRecord, 'id' | 'schemaVersion'>;
+
+// v1: the localStorage blob — `exercise` missing on the oldest push-up records
+export type LegacyRecord = Omit<WorkoutRecord, 'id' | 'schemaVersion' | 'exercise'> & {
+    schemaVersion?: number;
+    exercise?: string;
+};
+
+const MIGRATIONS: Record<number, (record: LegacyRecord) => LegacyRecord> = {
+    // v1 → v2: exercise becomes required
+    1: (record) => ({
+        ...record,
+        exercise: isExerciseType(record.exercise) ? record.exercise : 'pushups',
+        schemaVersion: 2,
+    }),
+};
+
+export const migrateRecord = (raw: LegacyRecord): WorkoutRecord => {
+    let record: LegacyRecord = { ...raw, schemaVersion: raw.schemaVersion ?? 1 };
+    while ((record.schemaVersion ?? 1) < SCHEMA_VERSION) {
+        const migrate = MIGRATIONS[record.schemaVersion ?? 1];
+        if (!migrate) throw new Error(`No migration from schema v${record.schemaVersion}`);
+        record = migrate(record);
+    }
+    return record as WorkoutRecord;
+};
+
+const DB_NAME = 'ai-pushup-pro';
+const DB_VERSION = 1;
+const STORE = 'workouts';
+
+// The pre-IndexedDB history, imported once when the database is created
+const LEGACY_HISTORY_KEY = 'pushup_history';
+
+const readLegacyHistory = (): WorkoutRecord[] => {
+    try {
+        const raw = localStorage.getItem(LEGACY_HISTORY_KEY);
+        const records: LegacyRecord[] = raw ? JSON.parse(raw) : [];
+        return records.map(migrateRecord);
+    } catch {
+        // Corrupt or inaccessible legacy data — nothing to import
+        return [];
+    }
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            if (event.oldVersion < 1) {
+                const store = db.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+                store.createIndex('userId', 'userId');
+                store.createIndex('date', 'date');
+                store.createIndex('exercise', 'exercise');
+                store.createIndex('userId_date', ['userId', 'date']);
+                store.createIndex('exercise_date', ['exercise', 'date']);
+
+                // Oldest first so auto-increment ids follow chronological order
+                readLegacyHistory().reverse().forEach(record => store.add(record));
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Let the next call retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+export interface HistoryQuery {
+    userId?: number | null;     // null = guest workouts only, undefined = everyone on this device
+    exercise?: ExerciseType;
+    from?: string;              // ISO timestamp, inclusive
+    to?: string;                // ISO timestamp, inclusive
+    limit?: number;
+    includeRivals?: boolean;    // Battle rivals' records are left out unless asked for
+}
+
+const isRival = (record: WorkoutRecord) => record.battle?.player === 1;
+
+// Newest first
+export const queryWorkouts = async (query: HistoryQuery = {}): Promise<WorkoutRecord[]> => {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readonly');
+    const store = tx.objectStore(STORE);
+    const from = query.from ?? '';
+    const to = query.to ?? '\uffff';   // Sorts after any ISO date
+    // IndexedDB doesn't index null keys, so guest records are picked out while scanning
+    const guestOnly = query.userId === null;
+
+    // Pick the narrowest index for the query
+    let source: IDBIndex;
+    let range: IDBKeyRange;
+    if (query.userId) {
+        source = store.index('userId_date');
+        range = IDBKeyRange.bound([query.userId, from], [query.userId, to]);
+    } else if (query.exercise) {
+        source = store.index('exercise_date');
+        range = IDBKeyRange.bound([query.exercise, from], [query.exercise, to]);
+    } else {
+        source = store.index('date');
+        range = IDBKeyRange.bound(from, to);
+    }
+
+    const results: WorkoutRecord[] = [];
+    await new Promise<void>((resolve, reject) => {
+        const request = source.openCursor(range, 'prev');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || (query.limit !== undefined && results.length >= query.limit)) {
+                resolve();
+                return;
+            }
+            const record = migrateRecord(cursor.value);
+            // Records from before Telegram sign-in have no userId at all
+            const owned = !guestOnly || record.userId == null;
+            if (owned && (!query.exercise || record.exercise === query.exercise) && (query.includeRivals || !isRival(record))) {
+                results.push(record);
+            }
+            cursor.continue();
+        };
+    });
+    return results;
+};
+
+// Same person finishing a workout at the same instant — treat as the same record. A
+// guest's battle saves two records at once, told apart by side.
+const dedupeKey = (record: Pick<WorkoutRecord, 'userId' | 'date' | 'battle'>) =>
+    `${record.userId ?? 'guest'}|${record.date}${record.battle ? `|${record.battle.player}` : ''}`;
+
+export interface ImportSummary {
+    merged: number;
+    skipped: number;        // Already in history
+}
+
+export const importWorkouts = async (records: NewWorkoutRecord[]): Promise<ImportSummary> => {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+
+    const existing = await requestToPromise(store.getAll()) as WorkoutRecord[];
+    const seen = new Set(existing.map(dedupeKey));
+
+    let merged = 0;
+    let skipped = 0;
+    // Oldest first, matching how they'd have been saved
+    [...records].sort((a, b) => a.date.localeCompare(b.date)).forEach(record => {
+        const key = dedupeKey(record);
+        if (seen.has(key)) {
+            skipped++;
+            return;
+        }
+        seen.add(key);
+        store.add({ ...record, schemaVersion: SCHEMA_VERSION });
+        merged++;
+    });
+
+    await transactionDone(tx);
+    return { merged, skipped };
+};
+
+export const saveWorkout = async (record: NewWorkoutRecord): Promise<WorkoutRecord> => {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const stored: WorkoutRecord = { ...record, schemaVersion: SCHEMA_VERSION };
+    const id = await requestToPromise(tx.objectStore(STORE).add(stored));
+    await transactionDone(tx);
+    return { ...stored, id: id as number };
+};
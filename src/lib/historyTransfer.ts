@@ -0,0 +1,200 @@
+import { isExerciseType } from './exercises';
+import { migrateRecord, SCHEMA_VERSION, type BattleLink, type LegacyRecord, type NewWorkoutRecord, type RepTiming, type WorkoutRecord } from './history';
+import type { IntervalResult, WorkoutMode } from './workoutModes';
+import { t } from './i18n';
+
+// ─── History Export / Import ───
+// CSV for spreadsheets, versioned JSON for a lossless backup. Both import back.
+
+export const EXPORT_FORMAT = 'ai-pushup-pro-history';
+export const EXPORT_VERSION = 1;
+
+export interface HistoryExport {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    schemaVersion: number;
+    exportedAt: string;
+    records: WorkoutRecord[];
+}
+
+const CSV_COLUMNS = ['date', 'userId', 'userName', 'exercise', 'count', 'durationSec', 'holdSec', 'noReps', 'suspiciousReps', 'trustScore'] as const;
+
+const csvEscape = (value: unknown): string => {
+    const s = value === undefined || value === null ? '' : String(value);
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const toCsv = (records: WorkoutRecord[]): string => [
+    CSV_COLUMNS.join(','),
+    ...records.map(r => CSV_COLUMNS.map(c => csvEscape(r[c])).join(',')),
+].join('\n');
+
+export const toJson = (records: WorkoutRecord[]): string => {
+    const payload: HistoryExport = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        schemaVersion: SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        // Local ids mean nothing on another device
+        records: records.map(r => ({ ...r, id: undefined })),
+    };
+    return JSON.stringify(payload, null, 2);
+};
+
+export const exportFile = (records: WorkoutRecord[], format: 'csv' | 'json'): File => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    return format === 'csv'
+        ? new File([toCsv(records)], `workouts-${stamp}.csv`, { type: 'text/csv' })
+        : new File([toJson(records)], `workouts-${stamp}.json`, { type: 'application/json' });
+};
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF
+const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field); field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            if (row.some(f => f !== '')) rows.push(row);
+            row = [];
+        } else {
+            field += ch;
+        }
+    }
+    row.push(field);
+    if (row.some(f => f !== '')) rows.push(row);
+    return rows;
+};
+
+const toNumber = (v: unknown): number | undefined => {
+    if (v === '' || v === undefined || v === null) return undefined;
+    const n = Number(v);
+    return Number.isFinite(n) ? n : undefined;
+};
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecordObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isRepTiming = (v: unknown): v is RepTiming =>
+    isRecordObject(v) && [v.atMs, v.eccentricMs, v.concentricMs, v.minAngle].every(isNumber);
+
+const isWorkoutMode = (v: unknown): v is WorkoutMode => {
+    if (!isRecordObject(v)) return false;
+    switch (v.kind) {
+        case 'open': return true;
+        case 'amrap': return isNumber(v.capSec) && v.capSec > 0;
+        case 'emom': return isNumber(v.minutes) && v.minutes > 0 && isNumber(v.repsPerMinute) && v.repsPerMinute > 0;
+        case 'tabata': return [v.rounds, v.workSec, v.restSec].every(n => isNumber(n) && n > 0);
+        case 'target': return isNumber(v.reps) && v.reps > 0;
+        default: return false;
+    }
+};
+
+const isIntervalResult = (v: unknown): v is IntervalResult =>
+    isRecordObject(v)
+    && (v.kind === 'work' || v.kind === 'rest')
+    && [v.index, v.startSec, v.endSec, v.reps].every(isNumber)
+    && (v.target === undefined || isNumber(v.target))
+    && (v.met === undefined || typeof v.met === 'boolean');
+
+const isBattleLink = (v: unknown): v is BattleLink =>
+    isRecordObject(v)
+    && typeof v.id === 'string' && v.id !== ''
+    && (v.player === 0 || v.player === 1)
+    && isNumber(v.opponentScore) && v.opponentScore >= 0
+    && (v.result === 'won' || v.result === 'lost' || v.result === 'draw');
+
+// An optional field is kept only if it's the right shape; a bad one is dropped, not the workout
+const optional = <K extends string, T>(key: K, value: unknown, valid: (v: unknown) => v is T) =>
+    (valid(value) ? { [key]: value } : {}) as Partial<Record<K, T>>;
+
+const isArrayOf = <T>(item: (v: unknown) => v is T) => (v: unknown): v is T[] => Array.isArray(v) && v.every(item);
+const isPercent = (v: unknown): v is number => isNumber(v) && v >= 0 && v <= 100;
+
+// Returns null for anything that can't be trusted as a workout. Only known fields
+// are copied, so nothing a screen later renders can arrive in the wrong shape.
+// Throws for a record from a schema this version doesn't know.
+export const validateRecord = (raw: Record<string, unknown>): NewWorkoutRecord | null => {
+    const date = typeof raw.date === 'string' && !Number.isNaN(Date.parse(raw.date)) ? raw.date : null;
+    const count = toNumber(raw.count);
+    const durationSec = toNumber(raw.durationSec);
+    if (!date || count === undefined || count < 0 || durationSec === undefined || durationSec < 0) return null;
+    if (raw.exercise !== undefined && raw.exercise !== '' && !isExerciseType(raw.exercise)) return null;
+
+    // Absent means v1 (the oldest exports and CSV)
+    const schemaVersion = toNumber(raw.schemaVersion) ?? 1;
+    if (!Number.isInteger(schemaVersion) || schemaVersion < 1 || schemaVersion > SCHEMA_VERSION) {
+        throw new Error(t('history.unknownSchema', { version: String(raw.schemaVersion) }));
+    }
+
+    const mode = isWorkoutMode(raw.mode) ? raw.mode : undefined;
+    const legacy: LegacyRecord = {
+        schemaVersion,
+        exercise: raw.exercise === '' ? undefined : raw.exercise as string | undefined,
+        date,
+        userId: toNumber(raw.userId) ?? null,
+        userName: typeof raw.userName === 'string' && raw.userName ? raw.userName : t('app.guest'),
+        count,
+        durationSec,
+        holdSec: toNumber(raw.holdSec),
+        noReps: toNumber(raw.noReps),
+        suspiciousReps: toNumber(raw.suspiciousReps),
+        trustScore: toNumber(raw.trustScore),
+        ...optional('formScores', raw.formScores, isArrayOf(isPercent)),
+        ...optional('reps', raw.reps, isArrayOf(isRepTiming)),
+        ...(mode ? { mode, ...optional('intervals', raw.intervals, isArrayOf(isIntervalResult)) } : {}),
+        ...optional('battle', raw.battle, isBattleLink),
+    };
+    const record = migrateRecord(legacy);
+    // The importing device assigns its own ids
+    delete record.id;
+    return record;
+};
+
+export interface ParsedImport {
+    records: NewWorkoutRecord[];
+    invalid: number;
+}
+
+export const parseImport = (text: string): ParsedImport => {
+    const trimmed = text.trim();
+    let rows: Record<string, unknown>[];
+
+    if (trimmed.startsWith('{')) {
+        const data = JSON.parse(trimmed) as Partial<HistoryExport>;
+        if (data.format !== EXPORT_FORMAT || !Array.isArray(data.records)) {
+            throw new Error(t('history.notHistoryFile'));
+        }
+        if ((data.version ?? 0) > EXPORT_VERSION || (data.schemaVersion ?? 0) > SCHEMA_VERSION) {
+            throw new Error(t('history.newerVersion'));
+        }
+        rows = data.records as unknown as Record<string, unknown>[];
+    } else {
+        const [header, ...lines] = parseCsvRows(trimmed);
+        if (!header || !['date', 'count', 'durationSec'].every(c => header.includes(c))) {
+            throw new Error(t('history.csvColumns'));
+        }
+        rows = lines.map(cells => Object.fromEntries(header.map((h, i) => [h, cells[i] ?? ''])));
+    }
+
+    const records: NewWorkoutRecord[] = [];
+    let invalid = 0;
+    rows.forEach(row => {
+        const record = row && typeof row === 'object' ? validateRecord(row) : null;
+        if (record) records.push(record);
+        else invalid++;
+    });
+    return { records, invalid };
+};
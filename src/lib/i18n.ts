@@ -0,0 +1,69 @@
+import { en, type MessageKey } from './locales/en';
+import { ru } from './locales/ru';
+import { id } from './locales/id';
+
+// ─── Internationalisation ───
+// Flat message catalogues keyed like "results.title". A message is either a string
+// with {placeholders}, or plural forms picked by Intl.PluralRules from `count`.
+// en.ts is the source of truth; the other catalogues must cover every key.
+
+export type { MessageKey };
+
+export type PluralForms = { one?: string; few?: string; many?: string; other: string };
+export type Message = string | PluralForms;
+export type Catalogue = Record<MessageKey, Message>;
+
+export const LOCALES = {
+    en: { name: 'English', messages: en as Catalogue },
+    ru: { name: 'Русский', messages: ru },
+    id: { name: 'Bahasa Indonesia', messages: id },
+} as const;
+
+export type Locale = keyof typeof LOCALES;
+
+export const LOCALE_IDS = Object.keys(LOCALES) as Locale[];
+
+export const isLocale = (value: unknown): value is Locale =>
+    typeof value === 'string' && value in LOCALES;
+
+let current: Locale = 'en';
+let pluralRules = new Intl.PluralRules(current);
+
+export const getLocale = () => current;
+
+export const setLocale = (locale: Locale) => {
+    current = locale;
+    pluralRules = new Intl.PluralRules(locale);
+};
+
+// Telegram's language_code ("ru", "id", "en-US", …) or navigator.language → a supported locale
+export const detectLocale = (languageCode?: string | null): Locale => {
+    const base = (languageCode ?? '').toLowerCase().split(/[-_]/)[0];
+    if (isLocale(base)) return base;
+    // Malay readers get on fine with Indonesian
+    if (base === 'ms') return 'id';
+    return 'en';
+};
+
+export type MessageParams = Record<string, string | number>;
+
+export const t = (key: MessageKey, params: MessageParams = {}): string => {
+    const message = LOCALES[current].messages[key] ?? en[key];
+    const template = typeof message === 'string'
+        ? message
+        : message[pluralRules.select(Number(params.count ?? 0)) as keyof PluralForms] ?? message.other;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        name in params ? String(params[name]) : match);
+};
+
+// ─── Locale-aware formatting ───
+
+export const formatDate = (date: string | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) =>
+    new Date(date).toLocaleDateString(current, options);
+
+// "1m 5s" / "45s", in the current language's units
+export const formatDuration = (sec: number) => {
+    const m = Math.floor(sec / 60);
+    const s = sec % 60;
+    return m > 0 ? t('duration.minSec', { m, s }) : t('duration.sec', { s });
+};
@@ -0,0 +1,83 @@
+import { getExercise, type ExerciseType } from './exercises';
+
+// ─── Chat Leaderboards ───
+// Ranked server-side (server/index.ts) from every workout logged in one Telegram chat;
+// shared here so the client and server agree on the shape.
+
+export type LeaderboardPeriod = 'day' | 'week' | 'all';
+
+export interface LeaderboardEntry {
+    rank: number;           // Ties share a rank: 1, 1, 3
+    userId: number;
+    userName: string;
+    total: number;          // Reps, or seconds held for hold exercises
+}
+
+export interface Leaderboard {
+    exercise: ExerciseType;
+    entries: LeaderboardEntry[];
+    // The requesting user's standing, null if they have nothing on this board yet
+    me: {
+        rank: number;
+        total: number;
+        ahead: { userName: string; gap: number } | null;  // Nearest person with a strictly higher total
+    } | null;
+}
+
+// The subset of a stored workout ranking needs (kept free of the IndexedDB types for the server)
+interface RankedWorkout {
+    userId: number;
+    userName: string;
+    exercise: ExerciseType;
+    count: number;
+    holdSec?: number;
+    trustScore?: number;
+    date: string;
+}
+
+// Sessions below this trust score (too many reps flagged by repVerifier.ts) don't
+// rank. Holds and records from before verification have no score and still count.
+const MIN_TRUST_SCORE = 70;
+
+export const rankLeaderboard = (
+    workouts: RankedWorkout[],
+    exercise: ExerciseType,
+    userId: number,
+): Leaderboard => {
+    const totals = new Map<number, { userName: string; total: number; latest: string }>();
+    for (const w of workouts) {
+        if (w.exercise !== exercise || (w.trustScore ?? 100) < MIN_TRUST_SCORE) continue;
+        const t = totals.get(w.userId) ?? { userName: w.userName, total: 0, latest: '' };
+        t.total += getExercise(w.exercise).kind === 'hold' ? w.holdSec ?? 0 : w.count;
+        // Show whatever name the user had most recently
+        if (w.date > t.latest) {
+            t.latest = w.date;
+            t.userName = w.userName;
+        }
+        totals.set(w.userId, t);
+    }
+
+    const sorted = [...totals.entries()]
+        .filter(([, t]) => t.total > 0)
+        .sort(([, a], [, b]) => b.total - a.total);
+
+    const entries: LeaderboardEntry[] = [];
+    sorted.forEach(([id, t], i) => {
+        const prev = entries[i - 1];
+        const rank = prev && prev.total === t.total ? prev.rank : i + 1;
+        entries.push({ rank, userId: id, userName: t.userName, total: t.total });
+    });
+
+    const mine = entries.find(e => e.userId === userId);
+    const ahead = mine ? entries.filter(e => e.total > mine.total).at(-1) : undefined;
+
+    return {
+        exercise,
+        entries,
+        me: mine ? {
+            rank: mine.rank,
+            total: mine.total,
+            ahead: ahead ? { userName: ahead.userName, gap: ahead.total - mine.total } : null,
+        } : null,
+    };
+};
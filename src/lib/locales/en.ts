@@ -0,0 +1,296 @@
+import type { Message } from '../i18n';
+
+// Source catalogue — every key the app uses is defined here first
+export const en = {
+    // ─── App ───
+    'app.tagline': 'AI-powered exercise tracking',
+    'app.back': '← Back',
+    'app.error': 'Error',
+    'app.guest': 'Guest',
+    'app.name': 'AI Push-Up Pro',
+
+    // ─── Duration ───
+    'duration.minSec': '{m}m {s}s',
+    'duration.sec': '{s}s',
+
+    // ─── Status line ───
+    'status.tapStart': 'Tap START to begin',
+    'status.startingCamera': 'Starting camera...',
+    'status.loadingAi': 'Loading AI...',
+    'status.cameraError': 'Camera error',
+    'status.aiFailed': 'AI failed.',
+    'status.detecting': 'Detecting pose... ({frames}/{needed})',
+    'status.holding': '⏱️ Holding — {time}',
+    'status.rep': '⬆️ Rep {count}! {score}%',
+    'status.calibrationStart': '🎯 Calibration: do {reps} slow, full reps',
+    'status.calibrationRep': '🎯 Calibration rep {reps}/{needed} — slow and full range',
+    'status.calibrated': '🎯 Calibrated {down}°–{up}° · {ready}',
+
+    // ─── Errors and alerts ───
+    'error.loadHistory': "Couldn't load history: {message}",
+    'error.saveWorkout': "Couldn't save workout: {message}",
+    'error.ai': 'AI Error: {message}',
+    'error.exportHistory': "Couldn't export history: {message}",
+    'error.importHistory': "Couldn't import history: {message}",
+    'error.share': 'Could not share. Try taking a screenshot!',
+    'error.battle': 'Battle mode needs two-person tracking, which this device can\'t run',
+    'history.saved': 'History saved as {file}',
+    'history.merged': {
+        one: 'Merged {count} workout, skipped {skipped} already saved',
+        other: 'Merged {count} workouts, skipped {skipped} already saved',
+    },
+    'history.mergedInvalid': {
+        one: 'Merged {count} workout, skipped {skipped} already saved and {invalid} invalid',
+        other: 'Merged {count} workouts, skipped {skipped} already saved and {invalid} invalid',
+    },
+    'history.notHistoryFile': 'Not an AI Push-Up Pro history file',
+    'history.newerVersion': 'This file was exported by a newer version of the app',
+    'history.unknownSchema': 'A workout in this file has an unknown format (schema {version})',
+    'history.csvColumns': 'CSV is missing the date, count or durationSec column',
+    'history.shareTitle': 'AI Push-Up Pro history',
+
+    // ─── Voice coach ───
+    'voice.go': 'Go!',
+    'voice.rest': 'Rest',
+    'voice.finished': 'Workout complete!',
+    'voice.calibrated': 'Calibrated. Start your set',
+    'voice.seconds': { one: '{count} second', other: '{count} seconds' },
+    'voice.milestone': '{count}! Keep going!',
+
+    // ─── Exercises ───
+    'exercise.pushups.label': 'Push-ups',
+    'exercise.pushups.noun': { one: 'push-up', other: 'push-ups' },
+    'exercise.pushups.ready': 'AI ready! Get into pushup position...',
+    'exercise.pushups.go': '✅ GO! Start pushing!',
+    'exercise.pushups.down': '⬇️ Good Depth!',
+    'exercise.pushups.noRep': '❌ Go lower',
+    'exercise.pushups.setup': 'Lie down and place hands on floor',
+
+    'exercise.squats.label': 'Squats',
+    'exercise.squats.noun': { one: 'squat', other: 'squats' },
+    'exercise.squats.ready': 'AI ready! Stand in front of camera...',
+    'exercise.squats.go': '✅ GO! Start squatting!',
+    'exercise.squats.down': '⬇️ Good Squat!',
+    'exercise.squats.noRep': '❌ Squat deeper',
+    'exercise.squats.setup': 'Stand back so your whole body is visible',
+
+    'exercise.lunges.label': 'Lunges',
+    'exercise.lunges.noun': { one: 'lunge', other: 'lunges' },
+    'exercise.lunges.ready': 'AI ready! Stand side-on to the camera...',
+    'exercise.lunges.go': '✅ GO! Start lunging!',
+    'exercise.lunges.down': '⬇️ Good Lunge!',
+    'exercise.lunges.noRep': '❌ Back knee lower',
+    'exercise.lunges.setup': 'Stand side-on so your whole body is visible',
+
+    'exercise.situps.label': 'Sit-ups',
+    'exercise.situps.noun': { one: 'sit-up', other: 'sit-ups' },
+    'exercise.situps.ready': 'AI ready! Lie on your back, knees bent...',
+    'exercise.situps.go': '✅ GO! Start sitting up!',
+    'exercise.situps.down': '⬆️ Good Crunch!',
+    'exercise.situps.noRep': '❌ Sit up higher',
+    'exercise.situps.setup': 'Lie on your back side-on to the camera',
+
+    'exercise.glute_bridges.label': 'Glute bridges',
+    'exercise.glute_bridges.noun': { one: 'glute bridge', other: 'glute bridges' },
+    'exercise.glute_bridges.ready': 'AI ready! Lie on your back, knees bent...',
+    'exercise.glute_bridges.go': '✅ GO! Drive your hips up!',
+    'exercise.glute_bridges.down': '⬇️ Hips down',
+    'exercise.glute_bridges.noRep': '❌ Lower your hips fully',
+    'exercise.glute_bridges.setup': 'Lie on your back side-on to the camera',
+
+    'exercise.shoulder_press.label': 'Shoulder press',
+    'exercise.shoulder_press.noun': { one: 'shoulder press', other: 'shoulder presses' },
+    'exercise.shoulder_press.ready': 'AI ready! Face the camera, hands at shoulders...',
+    'exercise.shoulder_press.go': '✅ GO! Start pressing!',
+    'exercise.shoulder_press.down': '⬇️ Good Rack!',
+    'exercise.shoulder_press.noRep': '❌ Bring it down to your shoulders',
+    'exercise.shoulder_press.setup': 'Face the camera with hands at shoulder height',
+
+    'exercise.plank.label': 'Plank',
+    'exercise.plank.noun': 'plank',
+    'exercise.plank.ready': 'AI ready! Get into plank position...',
+    'exercise.plank.go': '✅ GO! Hold it!',
+    'exercise.plank.setup': 'Side-on to the camera, forearms on the floor',
+
+    // ─── Position checks ───
+    'position.notHorizontal': 'Body not horizontal — lie flat!',
+    'position.handsTooHigh': 'Hands too high — get on the floor!',
+    'position.standingPushup': "You're standing! Lie down for pushups",
+    'position.noFeet': "Can't see your feet — move the phone back",
+    'position.standUp': 'Stand up straight!',
+    'position.noLegs': "Can't see legs — step back",
+    'position.sideOn': 'Lie down side-on to the camera',
+    'position.bendKnees': 'Bend your knees, feet flat',
+    'position.shouldersDown': 'Keep your shoulders on the floor',
+    'position.sitUpStraight': 'Sit or stand up straight!',
+    'position.raiseHands': 'Raise your hands to shoulder height',
+    'position.noBody': "Can't see full body",
+    'position.noBodyStepBack': "Can't see full body — step back",
+    'position.noBodyMovePhone': "Can't see full body — move the phone back",
+    'position.noArms': "Can't see your arms — step back",
+
+    // ─── Form cues ───
+    'cue.hipsSagging': 'Hips sagging',
+    'cue.hipsTooHigh': 'Hips too high',
+    'cue.kneesForward': 'Knees too far forward',
+    'cue.chestUp': 'Chest up',
+    'cue.goDeeper': 'Go deeper',
+    'cue.slowDown': 'Slow down',
+
+    // ─── Rep verification ───
+    'verify.bodyStill': 'Only your arms moved — lower your whole body',
+    'verify.hipsStill': "Hips didn't come down — sit into it",
+    'verify.tooFast': 'Too fast to be real — not counted',
+    'verify.tooRegular': 'Rhythm too even to be real — not counted',
+    'verify.shouldersStill': "Shoulders didn't come up — curl all the way",
+    'verify.hipsLow': "Hips didn't lift — drive them up",
+    'verify.handsLow': "Hands didn't go up — press overhead",
+    'verify.notVisible': "Couldn't see your whole body — not counted",
+
+    // ─── Workout modes ───
+    'mode.open': 'Open',
+    'mode.amrap': 'AMRAP {min} min',
+    'mode.amrapChip': 'AMRAP {min}′',
+    'mode.amrapTitle': 'AMRAP',
+    'mode.emom': 'EMOM {minutes}×{reps}',
+    'mode.emomMinute': 'EMOM {minute}/{minutes}',
+    'mode.tabata': 'Tabata {rounds}×{work}/{rest}',
+    'mode.tabataChip': 'Tabata',
+    'mode.firstTo': 'First to {reps}',
+    'mode.work': 'WORK',
+    'mode.rest': 'REST',
+
+    // ─── Idle screen ───
+    'idle.heroAlt': 'AI {exercise} Counter',
+    'idle.start': 'START {exercise}',
+    'idle.import': '⬆ Import',
+    'idle.voiceOn': '🗣 Voice on',
+    'idle.voiceOff': '🗣 Voice off',
+    'idle.recordOff': '🎥 No video',
+    'idle.recordFull': '🎥 Record video',
+    'idle.recordCapped': '🎥 Video · {sec}s max',
+    'idle.recordHighlight': '🎥 Video · last {sec}s',
+    'idle.cameraFront': '🤳 Front camera',
+    'idle.cameraRear': '📷 Rear camera',
+    'idle.cameraDefault': 'Default camera',
+    'idle.cameraN': 'Camera {n}',
+    'idle.resolution': '📐 {resolution}',
+    'idle.resolutionAuto': 'Auto',
+    'idle.battleOff': '⚔️ Battle',
+    'idle.battleOn': '⚔️ Battle: 2 players',
+    'idle.language': '🌐 {language}',
+    'idle.languageAuto': 'Auto',
+    'idle.totals': '🏆 {reps} in {workouts}',
+    'idle.progress': '📊 Progress',
+    'idle.recalibrate': '🎯 Recalibrate ({down}°–{up}°)',
+    'idle.leaderboard': '🏆 Group leaderboard',
+    'common.reps': { one: '{count} rep', other: '{count} reps' },
+    'common.workouts': { one: '{count} workout', other: '{count} workouts' },
+
+    // ─── Workout screen ───
+    'countdown.title': 'Get into position!',
+    'workout.stop': '⏹ STOP',
+    'dragon.nice': 'NICE!',
+    'dragon.keepGoing': 'KEEP GOING!',
+    'dragon.power': 'POWER!',
+    'dragon.yeah': 'YEAH!',
+
+    // ─── Results screen ───
+    'results.title': 'WORKOUT COMPLETE',
+    'results.newBest': '🏅 NEW PERSONAL BEST',
+    'results.best': '🏅 Best: {time}',
+    'results.noReps': { one: '❌ {count} no rep', other: '❌ {count} no reps' },
+    'results.trust': '🛡 Trust {score}%',
+    'results.suspicious': { one: '🚫 {count} rep not counted', other: '🚫 {count} reps not counted' },
+    'results.duration': 'Duration',
+    'results.form': 'Form',
+    'results.allTime': 'All-time',
+    'results.round': 'Round {n}',
+    'results.minute': 'Minute {n}',
+    'results.intervalReps': { one: '{value} rep', other: '{value} reps' },
+    'results.recent': 'Recent Workouts',
+    'results.held': '{time} held',
+    'results.repsIn': '{reps} · {time}',
+    'results.newWorkout': 'NEW WORKOUT',
+    'results.share': '📸 SHARE TO STORY',
+    'results.shareVideo': '🎬 SHARE VIDEO',
+    'results.leaderboard': '🏆 See where you rank in the group',
+    'results.tempo': 'Rep tempo',
+    'results.eccentric': 'Down',
+    'results.concentric': 'Up',
+    'results.seconds': '{value} s',
+    'results.deepest': 'Deepest',
+    'results.perWindow': 'Reps per {sec} s',
+    'results.fatigueDrop': '📉 Pace dropped {percent}% ({first} → {last})',
+    'results.fatigueHeld': '💪 Pace held ({first} → {last})',
+    'results.tempoSlower': 'Reps {percent}% slower by the end',
+    'results.noTimeline': 'No per-rep timeline for this workout',
+
+    // ─── Sharing ───
+    'share.stats': '{time}  ·  {total} all-time',
+    'share.textReps': '{emoji} Just did {count} {exercise}!',
+    'share.textHold': '{emoji} Just held a {time} {exercise}!',
+    'share.saved': 'Image saved! Share it to your Instagram Story 📸',
+    'share.videoSaved': 'Video saved! Share it from your gallery 🎬',
+    'share.title': 'SHARE',
+    'share.templateMinimal': 'Minimal',
+    'share.templateStats': 'Stats',
+    'share.templateTempo': 'Tempo',
+    'share.templateDragon': 'Dragon',
+    'share.week': 'This week: {total}',
+    'share.streak': { one: '🔥 {count}-day streak', other: '🔥 {count}-day streak' },
+    'share.toStory': '📖 SHARE TO STORY',
+    'share.send': '📤 SHARE',
+    'share.rendering': 'Drawing your card…',
+
+    // ─── Battle mode ───
+    'battle.setup': 'Stand side by side, both fully in frame',
+    'battle.you': 'You',
+    'battle.rival': 'Rival',
+    'battle.title': 'BATTLE OVER',
+    'battle.won': '🏆 You win!',
+    'battle.lost': '🏆 Rival wins!',
+    'battle.draw': '🤝 It\'s a draw!',
+    'battle.continue': 'MY RESULTS',
+    'battle.detail': '⚔️ Battle {result} · {score}–{opponent}',
+    'battle.resultWon': 'won',
+    'battle.resultLost': 'lost',
+    'battle.resultDraw': 'drawn',
+
+    // ─── Progress screen ───
+    'stats.title': 'PROGRESS',
+    'stats.daily': 'Daily',
+    'stats.weekly': 'Weekly',
+    'stats.monthly': 'Monthly',
+    'stats.currentStreak': 'Current streak',
+    'stats.longestStreak': 'Longest streak',
+    'stats.secondsHeld': 'Seconds held',
+    'stats.reps': 'Reps',
+    'stats.personalBests': 'Personal bests',
+    'stats.longestHold': 'Longest hold',
+    'stats.mostInSession': 'Most in a session',
+    'stats.fastest50': 'Fastest 50',
+    'stats.bestPace': 'Best reps/min',
+    'stats.pace': 'Reps per minute',
+    'stats.perMinute': '{value}/min',
+    'stats.needTwo': 'Need at least 2 workouts',
+    'stats.sessions': 'Sessions',
+
+    // ─── Leaderboard ───
+    'leaderboard.title': 'LEADERBOARD',
+    'leaderboard.today': 'Today',
+    'leaderboard.week': 'This week',
+    'leaderboard.allTime': 'All time',
+    'leaderboard.unavailable': 'Leaderboards need the app to be opened from Telegram while online.',
+    'leaderboard.error': "Couldn't load leaderboard: {message}",
+    'leaderboard.loading': 'Loading…',
+    'leaderboard.notScoped': 'Open the app from your group chat to compete with its members.',
+    'leaderboard.empty': 'Nobody has logged this yet — be the first!',
+    'leaderboard.you': '{name} (you)',
+    'leaderboard.rank': "You're #{rank}",
+    'leaderboard.behindReps': { one: '{count} rep behind {name}', other: '{count} reps behind {name}' },
+    'leaderboard.behindHold': '{time} held behind {name}',
+    'leaderboard.top': '👑 Nobody is ahead of you',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
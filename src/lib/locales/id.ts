@@ -0,0 +1,290 @@
+import type { Catalogue } from '../i18n';
+
+// Indonesian doesn't inflect for number, so plurals only need `other`
+export const id: Catalogue = {
+    // ─── App ───
+    'app.tagline': 'Pelacak latihan bertenaga AI',
+    'app.back': '← Kembali',
+    'app.error': 'Galat',
+    'app.guest': 'Tamu',
+    'app.name': 'AI Push-Up Pro',
+
+    // ─── Duration ───
+    'duration.minSec': '{m}m {s}d',
+    'duration.sec': '{s}d',
+
+    // ─── Status line ───
+    'status.tapStart': 'Ketuk MULAI untuk memulai',
+    'status.startingCamera': 'Menyalakan kamera...',
+    'status.loadingAi': 'Memuat AI...',
+    'status.cameraError': 'Kamera bermasalah',
+    'status.aiFailed': 'AI gagal.',
+    'status.detecting': 'Mendeteksi pose... ({frames}/{needed})',
+    'status.holding': '⏱️ Bertahan — {time}',
+    'status.rep': '⬆️ Repetisi {count}! {score}%',
+    'status.calibrationStart': '🎯 Kalibrasi: lakukan {reps} repetisi pelan dan penuh',
+    'status.calibrationRep': '🎯 Repetisi kalibrasi {reps}/{needed} — pelan dan gerakan penuh',
+    'status.calibrated': '🎯 Terkalibrasi {down}°–{up}° · {ready}',
+
+    // ─── Errors and alerts ───
+    'error.loadHistory': 'Gagal memuat riwayat: {message}',
+    'error.saveWorkout': 'Gagal menyimpan latihan: {message}',
+    'error.ai': 'Galat AI: {message}',
+    'error.exportHistory': 'Gagal mengekspor riwayat: {message}',
+    'error.importHistory': 'Gagal mengimpor riwayat: {message}',
+    'error.share': 'Gagal membagikan. Coba ambil tangkapan layar!',
+    'error.battle': 'Mode duel perlu melacak dua orang, dan perangkat ini tidak mampu',
+    'history.saved': 'Riwayat disimpan sebagai {file}',
+    'history.merged': { other: '{count} latihan digabung, {skipped} yang sudah tersimpan dilewati' },
+    'history.mergedInvalid': {
+        other: '{count} latihan digabung, {skipped} yang sudah tersimpan dan {invalid} yang tidak valid dilewati',
+    },
+    'history.notHistoryFile': 'Bukan file riwayat AI Push-Up Pro',
+    'history.newerVersion': 'File ini diekspor oleh versi aplikasi yang lebih baru',
+    'history.unknownSchema': 'Ada latihan di file ini dengan format tidak dikenal (skema {version})',
+    'history.csvColumns': 'CSV tidak memiliki kolom date, count, atau durationSec',
+    'history.shareTitle': 'Riwayat AI Push-Up Pro',
+
+    // ─── Voice coach ───
+    'voice.go': 'Mulai!',
+    'voice.rest': 'Istirahat',
+    'voice.finished': 'Latihan selesai!',
+    'voice.calibrated': 'Kalibrasi selesai. Mulai set kamu',
+    'voice.seconds': { other: '{count} detik' },
+    'voice.milestone': '{count}! Terus semangat!',
+
+    // ─── Exercises ───
+    'exercise.pushups.label': 'Push-up',
+    'exercise.pushups.noun': { other: 'push-up' },
+    'exercise.pushups.ready': 'AI siap! Ambil posisi push-up...',
+    'exercise.pushups.go': '✅ MULAI! Ayo push-up!',
+    'exercise.pushups.down': '⬇️ Kedalaman bagus!',
+    'exercise.pushups.noRep': '❌ Turun lebih rendah',
+    'exercise.pushups.setup': 'Berbaring dan letakkan tangan di lantai',
+
+    'exercise.squats.label': 'Squat',
+    'exercise.squats.noun': { other: 'squat' },
+    'exercise.squats.ready': 'AI siap! Berdiri di depan kamera...',
+    'exercise.squats.go': '✅ MULAI! Ayo squat!',
+    'exercise.squats.down': '⬇️ Squat bagus!',
+    'exercise.squats.noRep': '❌ Squat lebih dalam',
+    'exercise.squats.setup': 'Mundur sampai seluruh tubuh terlihat',
+
+    'exercise.lunges.label': 'Lunge',
+    'exercise.lunges.noun': { other: 'lunge' },
+    'exercise.lunges.ready': 'AI siap! Berdiri menyamping ke kamera...',
+    'exercise.lunges.go': '✅ MULAI! Ayo lunge!',
+    'exercise.lunges.down': '⬇️ Lunge bagus!',
+    'exercise.lunges.noRep': '❌ Lutut belakang lebih rendah',
+    'exercise.lunges.setup': 'Berdiri menyamping sampai seluruh tubuh terlihat',
+
+    'exercise.situps.label': 'Sit-up',
+    'exercise.situps.noun': { other: 'sit-up' },
+    'exercise.situps.ready': 'AI siap! Berbaring telentang, lutut ditekuk...',
+    'exercise.situps.go': '✅ MULAI! Ayo sit-up!',
+    'exercise.situps.down': '⬆️ Crunch bagus!',
+    'exercise.situps.noRep': '❌ Bangun lebih tinggi',
+    'exercise.situps.setup': 'Berbaring telentang menyamping ke kamera',
+
+    'exercise.glute_bridges.label': 'Glute bridge',
+    'exercise.glute_bridges.noun': { other: 'glute bridge' },
+    'exercise.glute_bridges.ready': 'AI siap! Berbaring telentang, lutut ditekuk...',
+    'exercise.glute_bridges.go': '✅ MULAI! Dorong pinggul ke atas!',
+    'exercise.glute_bridges.down': '⬇️ Pinggul turun',
+    'exercise.glute_bridges.noRep': '❌ Turunkan pinggul sepenuhnya',
+    'exercise.glute_bridges.setup': 'Berbaring telentang menyamping ke kamera',
+
+    'exercise.shoulder_press.label': 'Shoulder press',
+    'exercise.shoulder_press.noun': { other: 'shoulder press' },
+    'exercise.shoulder_press.ready': 'AI siap! Hadap kamera, tangan di bahu...',
+    'exercise.shoulder_press.go': '✅ MULAI! Ayo dorong!',
+    'exercise.shoulder_press.down': '⬇️ Posisi awal bagus!',
+    'exercise.shoulder_press.noRep': '❌ Turunkan sampai bahu',
+    'exercise.shoulder_press.setup': 'Hadap kamera dengan tangan setinggi bahu',
+
+    'exercise.plank.label': 'Plank',
+    'exercise.plank.noun': 'plank',
+    'exercise.plank.ready': 'AI siap! Ambil posisi plank...',
+    'exercise.plank.go': '✅ MULAI! Tahan!',
+    'exercise.plank.setup': 'Menyamping ke kamera, lengan bawah di lantai',
+
+    // ─── Position checks ───
+    'position.notHorizontal': 'Tubuh tidak mendatar — berbaringlah!',
+    'position.handsTooHigh': 'Tangan terlalu tinggi — turun ke lantai!',
+    'position.standingPushup': 'Kamu berdiri! Berbaringlah untuk push-up',
+    'position.noFeet': 'Kaki tidak terlihat — jauhkan ponsel',
+    'position.standUp': 'Berdiri tegak!',
+    'position.noLegs': 'Kaki tidak terlihat — mundur sedikit',
+    'position.sideOn': 'Berbaring menyamping ke kamera',
+    'position.bendKnees': 'Tekuk lutut, telapak kaki rata',
+    'position.shouldersDown': 'Jaga bahu tetap di lantai',
+    'position.sitUpStraight': 'Duduk atau berdiri tegak!',
+    'position.raiseHands': 'Angkat tangan setinggi bahu',
+    'position.noBody': 'Seluruh tubuh tidak terlihat',
+    'position.noBodyStepBack': 'Seluruh tubuh tidak terlihat — mundur sedikit',
+    'position.noBodyMovePhone': 'Seluruh tubuh tidak terlihat — jauhkan ponsel',
+    'position.noArms': 'Lengan tidak terlihat — mundur sedikit',
+
+    // ─── Form cues ───
+    'cue.hipsSagging': 'Pinggul melorot',
+    'cue.hipsTooHigh': 'Pinggul terlalu tinggi',
+    'cue.kneesForward': 'Lutut terlalu maju',
+    'cue.chestUp': 'Dada tegak',
+    'cue.goDeeper': 'Lebih dalam',
+    'cue.slowDown': 'Lebih pelan',
+
+    // ─── Rep verification ───
+    'verify.bodyStill': 'Hanya lenganmu yang bergerak — turunkan seluruh badan',
+    'verify.hipsStill': 'Pinggul tidak turun — turun lebih dalam',
+    'verify.tooFast': 'Terlalu cepat untuk nyata — tidak dihitung',
+    'verify.tooRegular': 'Ritme terlalu rata untuk nyata — tidak dihitung',
+    'verify.shouldersStill': 'Bahu tidak terangkat — bangun sepenuhnya',
+    'verify.hipsLow': 'Pinggul tidak terangkat — dorong ke atas',
+    'verify.handsLow': 'Tangan tidak naik — dorong ke atas kepala',
+    'verify.notVisible': 'Seluruh badan tidak terlihat — tidak dihitung',
+
+    // ─── Workout modes ───
+    'mode.open': 'Bebas',
+    'mode.amrap': 'AMRAP {min} mnt',
+    'mode.amrapChip': 'AMRAP {min}′',
+    'mode.amrapTitle': 'AMRAP',
+    'mode.emom': 'EMOM {minutes}×{reps}',
+    'mode.emomMinute': 'EMOM {minute}/{minutes}',
+    'mode.tabata': 'Tabata {rounds}×{work}/{rest}',
+    'mode.tabataChip': 'Tabata',
+    'mode.firstTo': 'Duluan ke {reps}',
+    'mode.work': 'KERJA',
+    'mode.rest': 'ISTIRAHAT',
+
+    // ─── Idle screen ───
+    'idle.heroAlt': 'Penghitung {exercise} AI',
+    'idle.start': 'MULAI {exercise}',
+    'idle.import': '⬆ Impor',
+    'idle.voiceOn': '🗣 Suara aktif',
+    'idle.voiceOff': '🗣 Suara mati',
+    'idle.recordOff': '🎥 Tanpa video',
+    'idle.recordFull': '🎥 Rekam video',
+    'idle.recordCapped': '🎥 Video · maks {sec} dtk',
+    'idle.recordHighlight': '🎥 Video · {sec} dtk terakhir',
+    'idle.cameraFront': '🤳 Kamera depan',
+    'idle.cameraRear': '📷 Kamera belakang',
+    'idle.cameraDefault': 'Kamera bawaan',
+    'idle.cameraN': 'Kamera {n}',
+    'idle.resolution': '📐 {resolution}',
+    'idle.resolutionAuto': 'Otomatis',
+    'idle.battleOff': '⚔️ Duel',
+    'idle.battleOn': '⚔️ Duel: 2 pemain',
+    'idle.language': '🌐 {language}',
+    'idle.languageAuto': 'Otomatis',
+    'idle.totals': '🏆 {reps} dalam {workouts}',
+    'idle.progress': '📊 Progres',
+    'idle.recalibrate': '🎯 Kalibrasi ulang ({down}°–{up}°)',
+    'idle.leaderboard': '🏆 Papan peringkat grup',
+    'common.reps': { other: '{count} repetisi' },
+    'common.workouts': { other: '{count} latihan' },
+
+    // ─── Workout screen ───
+    'countdown.title': 'Ambil posisi!',
+    'workout.stop': '⏹ BERHENTI',
+    'dragon.nice': 'MANTAP!',
+    'dragon.keepGoing': 'TERUS!',
+    'dragon.power': 'KUAT!',
+    'dragon.yeah': 'YES!',
+
+    // ─── Results screen ───
+    'results.title': 'LATIHAN SELESAI',
+    'results.newBest': '🏅 REKOR PRIBADI BARU',
+    'results.best': '🏅 Rekor: {time}',
+    'results.noReps': { other: '❌ {count} tidak dihitung' },
+    'results.trust': '🛡 Kepercayaan {score}%',
+    'results.suspicious': { other: '🚫 {count} repetisi tidak dihitung' },
+    'results.duration': 'Durasi',
+    'results.form': 'Teknik',
+    'results.allTime': 'Total',
+    'results.round': 'Ronde {n}',
+    'results.minute': 'Menit {n}',
+    'results.intervalReps': { other: '{value} repetisi' },
+    'results.recent': 'Latihan Terakhir',
+    'results.held': 'ditahan {time}',
+    'results.repsIn': '{reps} · {time}',
+    'results.newWorkout': 'LATIHAN BARU',
+    'results.share': '📸 BAGIKAN KE STORY',
+    'results.shareVideo': '🎬 BAGIKAN VIDEO',
+    'results.leaderboard': '🏆 Lihat peringkatmu di grup',
+    'results.tempo': 'Tempo repetisi',
+    'results.eccentric': 'Turun',
+    'results.concentric': 'Naik',
+    'results.seconds': '{value} dtk',
+    'results.deepest': 'Terdalam',
+    'results.perWindow': 'Repetisi per {sec} dtk',
+    'results.fatigueDrop': '📉 Tempo turun {percent}% ({first} → {last})',
+    'results.fatigueHeld': '💪 Tempo terjaga ({first} → {last})',
+    'results.tempoSlower': 'Repetisi {percent}% lebih lambat di akhir',
+    'results.noTimeline': 'Tidak ada data per repetisi untuk latihan ini',
+
+    // ─── Sharing ───
+    'share.stats': '{time}  ·  total {total}',
+    'share.textReps': '{emoji} Baru saja {count} {exercise}!',
+    'share.textHold': '{emoji} Baru saja {exercise} selama {time}!',
+    'share.saved': 'Gambar tersimpan! Bagikan ke Instagram Story kamu 📸',
+    'share.videoSaved': 'Video tersimpan! Bagikan dari galeri kamu 🎬',
+    'share.title': 'BAGIKAN',
+    'share.templateMinimal': 'Minimal',
+    'share.templateStats': 'Statistik',
+    'share.templateTempo': 'Tempo',
+    'share.templateDragon': 'Naga',
+    'share.week': 'Minggu ini: {total}',
+    'share.streak': { other: '🔥 {count} hari beruntun' },
+    'share.toStory': '📖 BAGIKAN KE CERITA',
+    'share.send': '📤 BAGIKAN',
+    'share.rendering': 'Menggambar kartu…',
+
+    // ─── Battle mode ───
+    'battle.setup': 'Berdiri berdampingan, keduanya terlihat utuh',
+    'battle.you': 'Kamu',
+    'battle.rival': 'Lawan',
+    'battle.title': 'DUEL SELESAI',
+    'battle.won': '🏆 Kamu menang!',
+    'battle.lost': '🏆 Lawan menang!',
+    'battle.draw': '🤝 Seri!',
+    'battle.continue': 'HASILKU',
+    'battle.detail': '⚔️ Duel {result} · {score}–{opponent}',
+    'battle.resultWon': 'menang',
+    'battle.resultLost': 'kalah',
+    'battle.resultDraw': 'seri',
+
+    // ─── Progress screen ───
+    'stats.title': 'PROGRES',
+    'stats.daily': 'Harian',
+    'stats.weekly': 'Mingguan',
+    'stats.monthly': 'Bulanan',
+    'stats.currentStreak': 'Streak saat ini',
+    'stats.longestStreak': 'Streak terpanjang',
+    'stats.secondsHeld': 'Detik bertahan',
+    'stats.reps': 'Repetisi',
+    'stats.personalBests': 'Rekor pribadi',
+    'stats.longestHold': 'Tahan terlama',
+    'stats.mostInSession': 'Terbanyak per sesi',
+    'stats.fastest50': '50 tercepat',
+    'stats.bestPace': 'Repetisi/mnt terbaik',
+    'stats.pace': 'Repetisi per menit',
+    'stats.perMinute': '{value}/mnt',
+    'stats.needTwo': 'Perlu minimal 2 latihan',
+    'stats.sessions': 'Sesi',
+
+    // ─── Leaderboard ───
+    'leaderboard.title': 'PAPAN PERINGKAT',
+    'leaderboard.today': 'Hari ini',
+    'leaderboard.week': 'Minggu ini',
+    'leaderboard.allTime': 'Sepanjang waktu',
+    'leaderboard.unavailable': 'Papan peringkat hanya tersedia saat aplikasi dibuka dari Telegram dan sedang online.',
+    'leaderboard.error': 'Gagal memuat papan peringkat: {message}',
+    'leaderboard.loading': 'Memuat…',
+    'leaderboard.notScoped': 'Buka aplikasi dari obrolan grup untuk bersaing dengan anggotanya.',
+    'leaderboard.empty': 'Belum ada yang mencatat ini — jadilah yang pertama!',
+    'leaderboard.you': '{name} (kamu)',
+    'leaderboard.rank': 'Kamu #{rank}',
+    'leaderboard.behindReps': { other: '{count} repetisi di belakang {name}' },
+    'leaderboard.behindHold': '{time} di belakang {name}',
+    'leaderboard.top': '👑 Tidak ada yang di depanmu',
+};
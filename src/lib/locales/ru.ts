@@ -0,0 +1,319 @@
+import type { Catalogue } from '../i18n';
+
+export const ru: Catalogue = {
+    // ─── App ───
+    'app.tagline': 'Тренировки под контролем ИИ',
+    'app.back': '← Назад',
+    'app.error': 'Ошибка',
+    'app.guest': 'Гость',
+    'app.name': 'AI Push-Up Pro',
+
+    // ─── Duration ───
+    'duration.minSec': '{m} мин {s} с',
+    'duration.sec': '{s} с',
+
+    // ─── Status line ───
+    'status.tapStart': 'Нажмите СТАРТ, чтобы начать',
+    'status.startingCamera': 'Включаем камеру...',
+    'status.loadingAi': 'Загружаем ИИ...',
+    'status.cameraError': 'Ошибка камеры',
+    'status.aiFailed': 'Сбой ИИ.',
+    'status.detecting': 'Ищем позу... ({frames}/{needed})',
+    'status.holding': '⏱️ Держим — {time}',
+    'status.rep': '⬆️ Повтор {count}! {score}%',
+    'status.calibrationStart': '🎯 Калибровка: медленные полные повторы — {reps} шт.',
+    'status.calibrationRep': '🎯 Калибровка: повтор {reps}/{needed} — медленно и на полную амплитуду',
+    'status.calibrated': '🎯 Откалибровано {down}°–{up}° · {ready}',
+
+    // ─── Errors and alerts ───
+    'error.loadHistory': 'Не удалось загрузить историю: {message}',
+    'error.saveWorkout': 'Не удалось сохранить тренировку: {message}',
+    'error.ai': 'Ошибка ИИ: {message}',
+    'error.exportHistory': 'Не удалось экспортировать историю: {message}',
+    'error.importHistory': 'Не удалось импортировать историю: {message}',
+    'error.share': 'Не удалось поделиться. Сделайте скриншот!',
+    'error.battle': 'Для битвы нужно отслеживать двух человек, а это устройство так не умеет',
+    'history.saved': 'История сохранена в {file}',
+    'history.merged': {
+        one: 'Добавлена {count} тренировка, пропущено уже сохранённых: {skipped}',
+        few: 'Добавлено {count} тренировки, пропущено уже сохранённых: {skipped}',
+        many: 'Добавлено {count} тренировок, пропущено уже сохранённых: {skipped}',
+        other: 'Добавлено {count} тренировки, пропущено уже сохранённых: {skipped}',
+    },
+    'history.mergedInvalid': {
+        one: 'Добавлена {count} тренировка, пропущено уже сохранённых: {skipped}, некорректных: {invalid}',
+        few: 'Добавлено {count} тренировки, пропущено уже сохранённых: {skipped}, некорректных: {invalid}',
+        many: 'Добавлено {count} тренировок, пропущено уже сохранённых: {skipped}, некорректных: {invalid}',
+        other: 'Добавлено {count} тренировки, пропущено уже сохранённых: {skipped}, некорректных: {invalid}',
+    },
+    'history.notHistoryFile': 'Это не файл истории AI Push-Up Pro',
+    'history.newerVersion': 'Файл экспортирован более новой версией приложения',
+    'history.unknownSchema': 'В файле есть тренировка в неизвестном формате (схема {version})',
+    'history.csvColumns': 'В CSV нет столбца date, count или durationSec',
+    'history.shareTitle': 'История AI Push-Up Pro',
+
+    // ─── Voice coach ───
+    'voice.go': 'Поехали!',
+    'voice.rest': 'Отдых',
+    'voice.finished': 'Тренировка завершена!',
+    'voice.calibrated': 'Калибровка готова. Начинайте подход',
+    'voice.seconds': {
+        one: '{count} секунда',
+        few: '{count} секунды',
+        many: '{count} секунд',
+        other: '{count} секунды',
+    },
+    'voice.milestone': '{count}! Так держать!',
+
+    // ─── Exercises ───
+    'exercise.pushups.label': 'Отжимания',
+    'exercise.pushups.noun': { one: 'отжимание', few: 'отжимания', many: 'отжиманий', other: 'отжимания' },
+    'exercise.pushups.ready': 'ИИ готов! Примите упор лёжа...',
+    'exercise.pushups.go': '✅ ВПЕРЁД! Отжимайтесь!',
+    'exercise.pushups.down': '⬇️ Хорошая глубина!',
+    'exercise.pushups.noRep': '❌ Ниже',
+    'exercise.pushups.setup': 'Лягте и поставьте руки на пол',
+
+    'exercise.squats.label': 'Приседания',
+    'exercise.squats.noun': { one: 'приседание', few: 'приседания', many: 'приседаний', other: 'приседания' },
+    'exercise.squats.ready': 'ИИ готов! Встаньте перед камерой...',
+    'exercise.squats.go': '✅ ВПЕРЁД! Приседайте!',
+    'exercise.squats.down': '⬇️ Хороший присед!',
+    'exercise.squats.noRep': '❌ Глубже',
+    'exercise.squats.setup': 'Отойдите, чтобы было видно всё тело',
+
+    'exercise.lunges.label': 'Выпады',
+    'exercise.lunges.noun': { one: 'выпад', few: 'выпада', many: 'выпадов', other: 'выпада' },
+    'exercise.lunges.ready': 'ИИ готов! Встаньте боком к камере...',
+    'exercise.lunges.go': '✅ ВПЕРЁД! Выпады!',
+    'exercise.lunges.down': '⬇️ Хороший выпад!',
+    'exercise.lunges.noRep': '❌ Заднее колено ниже',
+    'exercise.lunges.setup': 'Встаньте боком, чтобы было видно всё тело',
+
+    'exercise.situps.label': 'Пресс',
+    'exercise.situps.noun': {
+        one: 'подъём корпуса', few: 'подъёма корпуса', many: 'подъёмов корпуса', other: 'подъёма корпуса',
+    },
+    'exercise.situps.ready': 'ИИ готов! Лягте на спину, колени согнуты...',
+    'exercise.situps.go': '✅ ВПЕРЁД! Поднимайте корпус!',
+    'exercise.situps.down': '⬆️ Отличное скручивание!',
+    'exercise.situps.noRep': '❌ Поднимайтесь выше',
+    'exercise.situps.setup': 'Лягте на спину боком к камере',
+
+    'exercise.glute_bridges.label': 'Ягодичный мост',
+    'exercise.glute_bridges.noun': {
+        one: 'ягодичный мост', few: 'ягодичных моста', many: 'ягодичных мостов', other: 'ягодичных моста',
+    },
+    'exercise.glute_bridges.ready': 'ИИ готов! Лягте на спину, колени согнуты...',
+    'exercise.glute_bridges.go': '✅ ВПЕРЁД! Поднимайте таз!',
+    'exercise.glute_bridges.down': '⬇️ Таз вниз',
+    'exercise.glute_bridges.noRep': '❌ Опускайте таз полностью',
+    'exercise.glute_bridges.setup': 'Лягте на спину боком к камере',
+
+    'exercise.shoulder_press.label': 'Жим над головой',
+    'exercise.shoulder_press.noun': { one: 'жим', few: 'жима', many: 'жимов', other: 'жима' },
+    'exercise.shoulder_press.ready': 'ИИ готов! Лицом к камере, руки у плеч...',
+    'exercise.shoulder_press.go': '✅ ВПЕРЁД! Жмите!',
+    'exercise.shoulder_press.down': '⬇️ Хорошая стартовая позиция!',
+    'exercise.shoulder_press.noRep': '❌ Опускайте до плеч',
+    'exercise.shoulder_press.setup': 'Встаньте лицом к камере, руки на уровне плеч',
+
+    'exercise.plank.label': 'Планка',
+    'exercise.plank.noun': 'планка',
+    'exercise.plank.ready': 'ИИ готов! Встаньте в планку...',
+    'exercise.plank.go': '✅ ВПЕРЁД! Держите!',
+    'exercise.plank.setup': 'Боком к камере, предплечья на полу',
+
+    // ─── Position checks ───
+    'position.notHorizontal': 'Тело не горизонтально — лягте!',
+    'position.handsTooHigh': 'Руки слишком высоко — на пол!',
+    'position.standingPushup': 'Вы стоите! Для отжиманий нужно лечь',
+    'position.noFeet': 'Не видно ног — отодвиньте телефон',
+    'position.standUp': 'Встаньте прямо!',
+    'position.noLegs': 'Не видно ног — отойдите назад',
+    'position.sideOn': 'Лягте боком к камере',
+    'position.bendKnees': 'Согните колени, стопы на полу',
+    'position.shouldersDown': 'Плечи остаются на полу',
+    'position.sitUpStraight': 'Сядьте или встаньте прямо!',
+    'position.raiseHands': 'Поднимите руки до уровня плеч',
+    'position.noBody': 'Не видно всего тела',
+    'position.noBodyStepBack': 'Не видно всего тела — отойдите назад',
+    'position.noBodyMovePhone': 'Не видно всего тела — отодвиньте телефон',
+    'position.noArms': 'Не видно рук — отойдите назад',
+
+    // ─── Form cues ───
+    'cue.hipsSagging': 'Таз провисает',
+    'cue.hipsTooHigh': 'Таз слишком высоко',
+    'cue.kneesForward': 'Колени слишком вперёд',
+    'cue.chestUp': 'Грудь вверх',
+    'cue.goDeeper': 'Глубже',
+    'cue.slowDown': 'Медленнее',
+
+    // ─── Rep verification ───
+    'verify.bodyStill': 'Двигались только руки — опускайтесь всем телом',
+    'verify.hipsStill': 'Таз не опустился — присядьте глубже',
+    'verify.tooFast': 'Слишком быстро — не засчитано',
+    'verify.tooRegular': 'Слишком ровный ритм — не засчитано',
+    'verify.shouldersStill': 'Плечи не поднялись — поднимайтесь полностью',
+    'verify.hipsLow': 'Таз не поднялся — поднимите его выше',
+    'verify.handsLow': 'Руки не поднялись — выжимайте над головой',
+    'verify.notVisible': 'Не видно всего тела — не засчитано',
+
+    // ─── Workout modes ───
+    'mode.open': 'Свободно',
+    'mode.amrap': 'AMRAP {min} мин',
+    'mode.amrapChip': 'AMRAP {min}′',
+    'mode.amrapTitle': 'AMRAP',
+    'mode.emom': 'EMOM {minutes}×{reps}',
+    'mode.emomMinute': 'EMOM {minute}/{minutes}',
+    'mode.tabata': 'Табата {rounds}×{work}/{rest}',
+    'mode.tabataChip': 'Табата',
+    'mode.firstTo': 'До {reps}',
+    'mode.work': 'РАБОТА',
+    'mode.rest': 'ОТДЫХ',
+
+    // ─── Idle screen ───
+    'idle.heroAlt': 'ИИ-счётчик: {exercise}',
+    'idle.start': 'СТАРТ: {exercise}',
+    'idle.import': '⬆ Импорт',
+    'idle.voiceOn': '🗣 Голос вкл',
+    'idle.voiceOff': '🗣 Голос выкл',
+    'idle.recordOff': '🎥 Без видео',
+    'idle.recordFull': '🎥 Записывать видео',
+    'idle.recordCapped': '🎥 Видео · до {sec} с',
+    'idle.recordHighlight': '🎥 Видео · последние {sec} с',
+    'idle.cameraFront': '🤳 Фронтальная камера',
+    'idle.cameraRear': '📷 Основная камера',
+    'idle.cameraDefault': 'Камера по умолчанию',
+    'idle.cameraN': 'Камера {n}',
+    'idle.resolution': '📐 {resolution}',
+    'idle.resolutionAuto': 'Авто',
+    'idle.battleOff': '⚔️ Битва',
+    'idle.battleOn': '⚔️ Битва: 2 игрока',
+    'idle.language': '🌐 {language}',
+    'idle.languageAuto': 'Авто',
+    'idle.totals': '🏆 {reps} за {workouts}',
+    'idle.progress': '📊 Прогресс',
+    'idle.recalibrate': '🎯 Перекалибровать ({down}°–{up}°)',
+    'idle.leaderboard': '🏆 Рейтинг группы',
+    'common.reps': { one: '{count} повтор', few: '{count} повтора', many: '{count} повторов', other: '{count} повтора' },
+    'common.workouts': {
+        one: '{count} тренировку', few: '{count} тренировки', many: '{count} тренировок', other: '{count} тренировки',
+    },
+
+    // ─── Workout screen ───
+    'countdown.title': 'Займите позицию!',
+    'workout.stop': '⏹ СТОП',
+    'dragon.nice': 'КРУТО!',
+    'dragon.keepGoing': 'ДАВАЙ!',
+    'dragon.power': 'МОЩЬ!',
+    'dragon.yeah': 'ДА!',
+
+    // ─── Results screen ───
+    'results.title': 'ТРЕНИРОВКА ЗАВЕРШЕНА',
+    'results.newBest': '🏅 НОВЫЙ ЛИЧНЫЙ РЕКОРД',
+    'results.best': '🏅 Рекорд: {time}',
+    'results.noReps': {
+        one: '❌ {count} незасчитанный', few: '❌ {count} незасчитанных', many: '❌ {count} незасчитанных', other: '❌ {count} незасчитанных',
+    },
+    'results.trust': '🛡 Доверие {score}%',
+    'results.suspicious': {
+        one: '🚫 {count} повтор не засчитан', few: '🚫 {count} повтора не засчитаны', many: '🚫 {count} повторов не засчитаны', other: '🚫 {count} повтора не засчитаны',
+    },
+    'results.duration': 'Время',
+    'results.form': 'Техника',
+    'results.allTime': 'Всего',
+    'results.round': 'Раунд {n}',
+    'results.minute': 'Минута {n}',
+    'results.intervalReps': { one: '{value} повтор', few: '{value} повтора', many: '{value} повторов', other: '{value} повтора' },
+    'results.recent': 'Последние тренировки',
+    'results.held': '{time} удержания',
+    'results.repsIn': '{reps} · {time}',
+    'results.newWorkout': 'НОВАЯ ТРЕНИРОВКА',
+    'results.share': '📸 ПОДЕЛИТЬСЯ В ИСТОРИИ',
+    'results.shareVideo': '🎬 ПОДЕЛИТЬСЯ ВИДЕО',
+    'results.leaderboard': '🏆 Узнать своё место в группе',
+    'results.tempo': 'Темп повторов',
+    'results.eccentric': 'Вниз',
+    'results.concentric': 'Вверх',
+    'results.seconds': '{value} с',
+    'results.deepest': 'Глубина',
+    'results.perWindow': 'Повторов за {sec} с',
+    'results.fatigueDrop': '📉 Темп упал на {percent}% ({first} → {last})',
+    'results.fatigueHeld': '💪 Темп сохранён ({first} → {last})',
+    'results.tempoSlower': 'К концу повторы медленнее на {percent}%',
+    'results.noTimeline': 'Для этой тренировки нет данных по повторам',
+
+    // ─── Sharing ───
+    'share.stats': '{time}  ·  {total} всего',
+    'share.textReps': '{emoji} Готово: {count} {exercise}!',
+    'share.textHold': '{emoji} {exercise}: {time}!',
+    'share.saved': 'Картинка сохранена! Поделитесь ею в истории Instagram 📸',
+    'share.videoSaved': 'Видео сохранено! Поделитесь им из галереи 🎬',
+    'share.title': 'ПОДЕЛИТЬСЯ',
+    'share.templateMinimal': 'Минимум',
+    'share.templateStats': 'Статистика',
+    'share.templateTempo': 'Темп',
+    'share.templateDragon': 'Дракон',
+    'share.week': 'За неделю: {total}',
+    'share.streak': {
+        one: '🔥 {count} день подряд', few: '🔥 {count} дня подряд', many: '🔥 {count} дней подряд', other: '🔥 {count} дня подряд',
+    },
+    'share.toStory': '📖 В ИСТОРИЮ',
+    'share.send': '📤 ПОДЕЛИТЬСЯ',
+    'share.rendering': 'Рисуем карточку…',
+
+    // ─── Battle mode ───
+    'battle.setup': 'Встаньте рядом, оба целиком в кадре',
+    'battle.you': 'Вы',
+    'battle.rival': 'Соперник',
+    'battle.title': 'БИТВА ОКОНЧЕНА',
+    'battle.won': '🏆 Вы победили!',
+    'battle.lost': '🏆 Победил соперник!',
+    'battle.draw': '🤝 Ничья!',
+    'battle.continue': 'МОИ РЕЗУЛЬТАТЫ',
+    'battle.detail': '⚔️ Битва: {result} · {score}–{opponent}',
+    'battle.resultWon': 'победа',
+    'battle.resultLost': 'поражение',
+    'battle.resultDraw': 'ничья',
+
+    // ─── Progress screen ───
+    'stats.title': 'ПРОГРЕСС',
+    'stats.daily': 'Дни',
+    'stats.weekly': 'Недели',
+    'stats.monthly': 'Месяцы',
+    'stats.currentStreak': 'Текущая серия',
+    'stats.longestStreak': 'Лучшая серия',
+    'stats.secondsHeld': 'Секунд удержания',
+    'stats.reps': 'Повторы',
+    'stats.personalBests': 'Личные рекорды',
+    'stats.longestHold': 'Дольше всего',
+    'stats.mostInSession': 'Больше всего за раз',
+    'stats.fastest50': 'Быстрейшие 50',
+    'stats.bestPace': 'Лучший темп/мин',
+    'stats.pace': 'Повторов в минуту',
+    'stats.perMinute': '{value}/мин',
+    'stats.needTwo': 'Нужно хотя бы 2 тренировки',
+    'stats.sessions': 'Тренировки',
+
+    // ─── Leaderboard ───
+    'leaderboard.title': 'РЕЙТИНГ',
+    'leaderboard.today': 'Сегодня',
+    'leaderboard.week': 'Эта неделя',
+    'leaderboard.allTime': 'Всё время',
+    'leaderboard.unavailable': 'Рейтинг доступен, только если приложение открыто из Telegram и есть сеть.',
+    'leaderboard.error': 'Не удалось загрузить рейтинг: {message}',
+    'leaderboard.loading': 'Загрузка…',
+    'leaderboard.notScoped': 'Откройте приложение из группового чата, чтобы соревноваться с участниками.',
+    'leaderboard.empty': 'Здесь пока пусто — будьте первым!',
+    'leaderboard.you': '{name} (вы)',
+    'leaderboard.rank': 'Вы на {rank}-м месте',
+    'leaderboard.behindReps': {
+        one: 'На {count} повтор меньше, чем у {name}',
+        few: 'На {count} повтора меньше, чем у {name}',
+        many: 'На {count} повторов меньше, чем у {name}',
+        other: 'На {count} повтора меньше, чем у {name}',
+    },
+    'leaderboard.behindHold': 'На {time} меньше, чем у {name}',
+    'leaderboard.top': '👑 Вас никто не опережает',
+};
@@ -0,0 +1,97 @@
+import type { PoseModel } from './poseAssets';
+
+// ─── Adaptive Performance Tiers ───
+// Each tier trades accuracy for speed: model size, camera resolution and how many
+// camera frames are skipped between inferences. The manager watches the pipeline's
+// inference time over the first seconds of a session and steps one tier at a time
+// until the model keeps up with TARGET_FPS with some headroom, then settles.
+
+export type TierId = 'minimal' | 'low' | 'standard' | 'high';
+
+export interface PerformanceTier {
+    id: TierId;
+    model: PoseModel;
+    width: number;
+    height: number;
+    frameSkip: number;      // Camera frames skipped after each processed one
+}
+
+// Slowest to fastest device
+export const PERFORMANCE_TIERS: PerformanceTier[] = [
+    { id: 'minimal', model: 'lite', width: 320, height: 240, frameSkip: 1 },
+    { id: 'low', model: 'lite', width: 480, height: 360, frameSkip: 0 },
+    { id: 'standard', model: 'full', width: 640, height: 480, frameSkip: 0 },
+    { id: 'high', model: 'heavy', width: 640, height: 480, frameSkip: 0 },
+];
+
+export const DEFAULT_TIER: TierId = 'standard';
+
+export const TARGET_FPS = 24;
+
+const WARMUP_WINDOWS = 2;       // Metrics windows ignored after a start or tier change (model load, JIT)
+const MEASURE_WINDOWS = 3;      // Windows averaged before each decision
+const STEP_UP_HEADROOM = 0.5;   // Step up only if inference uses under half the next tier's budget
+
+export const getTier = (id: TierId | null): PerformanceTier =>
+    PERFORMANCE_TIERS.find(tier => tier.id === id) ?? PERFORMANCE_TIERS.find(tier => tier.id === DEFAULT_TIER)!;
+
+// Longest inference that still holds the target rate once skipped frames are accounted for
+const frameBudgetMs = (tier: PerformanceTier) => (1000 / TARGET_FPS) * (tier.frameSkip + 1);
+
+export interface PerformanceManagerHandlers {
+    onChange: (tier: PerformanceTier) => void;
+    onSettle: (tier: PerformanceTier) => void;
+}
+
+export interface PerformanceManager {
+    // Feed one metrics window (see PipelineMetrics)
+    report: (metrics: { inferenceMs: number }) => void;
+    getTier: () => PerformanceTier;
+    isSettled: () => boolean;
+}
+
+export const createPerformanceManager = (initial: TierId | null, handlers: PerformanceManagerHandlers): PerformanceManager => {
+    let index = PERFORMANCE_TIERS.indexOf(getTier(initial));
+    // Highest tier not yet found too slow this session — stops it bouncing between two
+    let ceiling = PERFORMANCE_TIERS.length - 1;
+    let warmup = WARMUP_WINDOWS;
+    let samples: number[] = [];
+    let settled = false;
+
+    const step = (to: number) => {
+        index = to;
+        warmup = WARMUP_WINDOWS;
+        handlers.onChange(PERFORMANCE_TIERS[index]);
+    };
+
+    const report = ({ inferenceMs }: { inferenceMs: number }) => {
+        if (settled) return;
+        if (warmup > 0) {
+            warmup--;
+            return;
+        }
+        samples.push(inferenceMs);
+        if (samples.length < MEASURE_WINDOWS) return;
+
+        const average = samples.reduce((sum, ms) => sum + ms, 0) / samples.length;
+        samples = [];
+
+        if (average > frameBudgetMs(PERFORMANCE_TIERS[index]) && index > 0) {
+            ceiling = index - 1;
+            step(index - 1);
+            return;
+        }
+        if (index < ceiling && average < frameBudgetMs(PERFORMANCE_TIERS[index + 1]) * STEP_UP_HEADROOM) {
+            step(index + 1);
+            return;
+        }
+        settled = true;
+        handlers.onSettle(PERFORMANCE_TIERS[index]);
+    };
+
+    return {
+        report,
+        getTier: () => PERFORMANCE_TIERS[index],
+        isSettled: () => settled,
+    };
+};
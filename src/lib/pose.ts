@@ -0,0 +1,70 @@
+// ─── Pose landmark helpers (MediaPipe BlazePose, 33 landmarks) ───
+
+export type Landmark = { x: number; y: number; z?: number; visibility?: number };
+
+export const LM = {
+    NOSE: 0,
+    LEFT_SHOULDER: 11, RIGHT_SHOULDER: 12,
+    LEFT_ELBOW: 13, RIGHT_ELBOW: 14,
+    LEFT_WRIST: 15, RIGHT_WRIST: 16,
+    LEFT_HIP: 23, RIGHT_HIP: 24,
+    LEFT_KNEE: 25, RIGHT_KNEE: 26,
+    LEFT_ANKLE: 27, RIGHT_ANKLE: 28,
+};
+
+export const calcAngle = (a: Landmark, b: Landmark, c: Landmark) => {
+    const rad = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
+    let deg = Math.abs(rad * 180 / Math.PI);
+    if (deg > 180) deg = 360 - deg;
+    return deg;
+};
+
+export const isVisible = (lm: Landmark | undefined, threshold = 0.35) => (lm?.visibility ?? 0) > threshold;
+
+// Average of a left/right landmark pair
+export const midpoint = (landmarks: Landmark[], left: number, right: number): Landmark => ({
+    x: (landmarks[left].x + landmarks[right].x) / 2,
+    y: (landmarks[left].y + landmarks[right].y) / 2,
+});
+
+// A joint angle measured at the middle landmark, e.g. shoulder → elbow → wrist
+export type JointTriplet = [number, number, number];
+
+// Angle for a joint tracked on both sides: averages when both are visible,
+// otherwise falls back to whichever side the camera can see
+export const getJointAngle = (landmarks: Landmark[], left: JointTriplet, right: JointTriplet): number | null => {
+    const [la, lb, lc] = left.map(i => landmarks[i]);
+    const leftOk = isVisible(la) && isVisible(lb) && isVisible(lc);
+
+    const [ra, rb, rc] = right.map(i => landmarks[i]);
+    const rightOk = isVisible(ra) && isVisible(rb) && isVisible(rc);
+
+    if (leftOk && rightOk) {
+        return (calcAngle(la, lb, lc) + calcAngle(ra, rb, rc)) / 2;
+    } else if (leftOk) {
+        return calcAngle(la, lb, lc);
+    } else if (rightOk) {
+        return calcAngle(ra, rb, rc);
+    }
+    return null;
+};
+
+// Skeleton drawn over the camera feed
+export const SKELETON_CONNECTIONS: [number, number][] = [
+    [LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER],
+    [LM.LEFT_SHOULDER, LM.LEFT_ELBOW], [LM.LEFT_ELBOW, LM.LEFT_WRIST],
+    [LM.RIGHT_SHOULDER, LM.RIGHT_ELBOW], [LM.RIGHT_ELBOW, LM.RIGHT_WRIST],
+    [LM.LEFT_SHOULDER, LM.LEFT_HIP], [LM.RIGHT_SHOULDER, LM.RIGHT_HIP],
+    [LM.LEFT_HIP, LM.RIGHT_HIP],
+    [LM.LEFT_HIP, LM.LEFT_KNEE], [LM.LEFT_KNEE, LM.LEFT_ANKLE],
+    [LM.RIGHT_HIP, LM.RIGHT_KNEE], [LM.RIGHT_KNEE, LM.RIGHT_ANKLE],
+];
+
+export const SKELETON_POINTS = [
+    LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER,
+    LM.LEFT_ELBOW, LM.RIGHT_ELBOW,
+    LM.LEFT_WRIST, LM.RIGHT_WRIST,
+    LM.LEFT_HIP, LM.RIGHT_HIP,
+    LM.LEFT_KNEE, LM.RIGHT_KNEE,
+    LM.LEFT_ANKLE, LM.RIGHT_ANKLE,
+];
@@ -0,0 +1,18 @@
+// ─── Self-hosted MediaPipe assets ───
+// plugins/pwa.ts serves node_modules/@mediapipe/pose and the Tasks WASM + pose models under
+// these paths (dev) and copies them into the build, so the models and WASM come from our
+// origin and can be cached offline.
+
+export const POSE_ASSET_PATH = 'mediapipe/pose';
+export const TASKS_ASSET_PATH = 'mediapipe/tasks';
+
+// Pose landmarker model sizes, smallest and fastest first
+export type PoseModel = 'lite' | 'full' | 'heavy';
+
+export const locatePoseFile = (file: string) => `${import.meta.env.BASE_URL}${POSE_ASSET_PATH}/${file}`;
+
+// Absolute URLs — the pose worker would resolve relative ones against its own script
+const absolute = (path: string) => new URL(`${import.meta.env.BASE_URL}${path}`, window.location.href).href;
+
+export const tasksWasmPath = () => absolute(TASKS_ASSET_PATH);
+export const poseModelPath = (model: PoseModel) => absolute(`${TASKS_ASSET_PATH}/pose_landmarker_${model}.task`);
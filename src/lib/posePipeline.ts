@@ -0,0 +1,348 @@
+import { locatePoseFile, poseModelPath, tasksWasmPath, type PoseModel } from './poseAssets';
+import type { PerformanceTier } from './performanceTier';
+import { createPoseSession, type SessionConfig } from './poseSession';
+import type { Landmark } from './pose';
+import type { RepEngineState, RepEvent } from './repEngine';
+import type { CalibrationProgress } from './calibration';
+import type { PoseWorkerRequest, PoseWorkerResponse } from './poseWorker';
+
+// ─── Pose Pipelines ───
+// Camera frames in, rep events out. The worker pipeline runs the Tasks PoseLandmarker
+// off the main thread (see poseWorker.ts). Browsers without module workers and
+// OffscreenCanvas, or where the worker's model won't load, get the original
+// @mediapipe/pose solution on the main thread. Both report the same metrics, so the
+// two can be compared on a real device.
+
+export type PipelineKind = 'worker' | 'main';
+
+export interface PipelineMetrics {
+    pipeline: PipelineKind;
+    fps: number;            // Frames processed per second
+    latencyMs: number;      // Average capture → result time
+    inferenceMs: number;    // Average time spent inside the model
+    dropped: number;        // Camera frames skipped while a frame was in flight (worker only)
+}
+
+export interface PipelineHandlers {
+    // player is 0 outside battle mode
+    onEvents: (events: RepEvent[], state: RepEngineState, player: number) => void;
+    onCalibration: (progress: CalibrationProgress, state: RepEngineState) => void;
+    onMetrics?: (metrics: PipelineMetrics) => void;
+    // Failures once tracking is running; the pipeline keeps going with the next frame
+    onError?: (error: Error) => void;
+}
+
+export interface PosePipeline {
+    kind: PipelineKind;
+    // Bodies it can track at once; battle mode needs two
+    maxPlayers: number;
+    // One workout; calling start again ends the previous one
+    start: (video: HTMLVideoElement, canvas: HTMLCanvasElement, session: SessionConfig, handlers: PipelineHandlers) => void;
+    stop: () => void;
+    // Model size, camera resolution and frame skipping; applies mid-workout too
+    setTier: (tier: PerformanceTier) => void;
+    // Latest skeleton frame, for the workout recorder. The worker only sends them
+    // back while capture is on.
+    setOverlayCapture: (enabled: boolean) => void;
+    getOverlay: () => CanvasImageSource | null;
+}
+
+const METRICS_INTERVAL_MS = 1000;
+
+const createMetrics = (pipeline: PipelineKind, report: (metrics: PipelineMetrics) => void) => {
+    let frames = 0;
+    let latency = 0;
+    let inference = 0;
+    let dropped = 0;
+    let windowStart = performance.now();
+
+    const frame = (latencyMs: number, inferenceMs: number) => {
+        frames++;
+        latency += latencyMs;
+        inference += inferenceMs;
+
+        const now = performance.now();
+        const elapsed = now - windowStart;
+        if (elapsed < METRICS_INTERVAL_MS) return;
+        report({
+            pipeline,
+            fps: Math.round(frames * 10000 / elapsed) / 10,
+            latencyMs: Math.round(latency / frames),
+            inferenceMs: Math.round(inference / frames),
+            dropped,
+        });
+        frames = 0;
+        latency = 0;
+        inference = 0;
+        dropped = 0;
+        windowStart = now;
+    };
+
+    return { frame, drop: () => { dropped++; } };
+};
+
+// Asks the camera for the tier's resolution; it picks the nearest mode it supports
+const applyResolution = (video: HTMLVideoElement | null, { width, height }: PerformanceTier) => {
+    const track = video?.srcObject instanceof MediaStream ? video.srcObject.getVideoTracks()[0] : undefined;
+    track?.applyConstraints({ width, height }).catch(() => { /* Camera keeps its current mode */ });
+};
+
+const supportsWorkerPipeline = () =>
+    typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap === 'function'
+    && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+// Calls `next` once per camera frame where supported, otherwise once per display frame
+const scheduler = (video: HTMLVideoElement) => {
+    const perVideoFrame = 'requestVideoFrameCallback' in video;
+    const schedule = (next: () => void) => {
+        if (perVideoFrame) video.requestVideoFrameCallback(next);
+        else requestAnimationFrame(next);
+    };
+    return { perVideoFrame, schedule };
+};
+
+const createWorkerPipeline = async (initialTier: PerformanceTier): Promise<PosePipeline> => {
+    const worker = new Worker(new URL('./poseWorker.ts', import.meta.url), { type: 'module' });
+    const send = (message: PoseWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            worker.onmessage = (e: MessageEvent<PoseWorkerResponse>) => {
+                if (e.data.type === 'ready') resolve();
+                else if (e.data.type === 'error') reject(new Error(e.data.message));
+            };
+            worker.onerror = (e) => reject(new Error(e.message));
+            send({ type: 'init', wasmPath: tasksWasmPath(), modelPath: poseModelPath(initialTier.model) });
+        });
+    } catch (err) {
+        worker.terminate();
+        throw err;
+    }
+
+    // A canvas can hand over its drawing surface only once
+    let transferred: HTMLCanvasElement | null = null;
+    let stopFrames: (() => void) | null = null;
+    let tier = initialTier;
+    let model: PoseModel = initialTier.model;
+    let currentVideo: HTMLVideoElement | null = null;
+    let overlay: ImageBitmap | null = null;
+
+    const setOverlayCapture = (enabled: boolean) => {
+        send({ type: 'overlay', enabled });
+        if (!enabled) {
+            overlay?.close();
+            overlay = null;
+        }
+    };
+
+    const setTier = (next: PerformanceTier) => {
+        tier = next;
+        if (next.model !== model) {
+            model = next.model;
+            send({ type: 'model', modelPath: poseModelPath(model) });
+        }
+        applyResolution(currentVideo, next);
+    };
+
+    const stop = () => {
+        stopFrames?.();
+        stopFrames = null;
+    };
+
+    const start: PosePipeline['start'] = (video, canvas, session, handlers) => {
+        stop();
+        const metrics = handlers.onMetrics ? createMetrics('worker', handlers.onMetrics) : null;
+        let running = true;
+        // One frame in flight at a time; newer camera frames are skipped until it's done
+        let inFlight = false;
+        let sentAt = 0;
+        let skipped = 0;
+        currentVideo = video;
+
+        worker.onmessage = (e: MessageEvent<PoseWorkerResponse>) => {
+            if (!running) return;
+            const message = e.data;
+            switch (message.type) {
+                case 'frame-done':
+                    inFlight = false;
+                    if (message.inferenceMs !== null) metrics?.frame(performance.now() - sentAt, message.inferenceMs);
+                    break;
+                case 'events':
+                    handlers.onEvents(message.events, message.state, message.player);
+                    break;
+                case 'calibration':
+                    handlers.onCalibration(message.progress, message.state);
+                    break;
+                case 'overlay':
+                    overlay?.close();
+                    overlay = message.bitmap;
+                    break;
+                case 'error':
+                    handlers.onError?.(new Error(message.message));
+                    break;
+            }
+        };
+        // Replaces the init rejecter, which nothing listens to any more
+        worker.onerror = (e) => {
+            if (running) handlers.onError?.(new Error(e.message));
+        };
+
+        const offscreen = canvas !== transferred ? canvas.transferControlToOffscreen() : undefined;
+        transferred = canvas;
+        send({ type: 'start', session, canvas: offscreen }, offscreen ? [offscreen] : []);
+
+        const { perVideoFrame, schedule } = scheduler(video);
+
+        const pump = () => {
+            if (!running) return;
+            schedule(pump);
+            if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+            if (skipped < tier.frameSkip) {
+                skipped++;
+                return;
+            }
+            if (inFlight) {
+                if (perVideoFrame) metrics?.drop();
+                return;
+            }
+            skipped = 0;
+            inFlight = true;
+            sentAt = performance.now();
+            createImageBitmap(video)
+                .then(bitmap => {
+                    if (running) send({ type: 'frame', bitmap, t: Date.now() }, [bitmap]);
+                    else bitmap.close();
+                })
+                .catch(() => { inFlight = false; });
+        };
+        schedule(pump);
+
+        stopFrames = () => {
+            running = false;
+            currentVideo = null;
+            send({ type: 'stop' });
+        };
+    };
+
+    return { kind: 'worker', maxPlayers: 2, start, stop, setTier, setOverlayCapture, getOverlay: () => overlay };
+};
+
+// The legacy solution ships without its heavy model, so the top tier runs the full one
+const MODEL_COMPLEXITY: Record<PoseModel, 0 | 1> = { lite: 0, full: 1, heavy: 1 };
+
+const createMainThreadPipeline = async (initialTier: PerformanceTier): Promise<PosePipeline> => {
+    const { Pose } = await import('@mediapipe/pose');
+
+    const pose = new Pose({
+        locateFile: locatePoseFile,
+    });
+    let tier = initialTier;
+    pose.setOptions({
+        modelComplexity: MODEL_COMPLEXITY[tier.model],
+        smoothLandmarks: true,
+        enableSegmentation: false,
+        smoothSegmentation: false,
+        minDetectionConfidence: 0.5,
+        minTrackingConfidence: 0.5,
+    });
+
+    let onResults: ((poses: Landmark[][]) => void) | null = null;
+    pose.onResults(results => onResults?.(results.poseLandmarks ? [results.poseLandmarks] : []));
+    let stopFrames: (() => void) | null = null;
+    let currentVideo: HTMLVideoElement | null = null;
+    let currentCanvas: HTMLCanvasElement | null = null;
+
+    const setTier = (next: PerformanceTier) => {
+        if (MODEL_COMPLEXITY[next.model] !== MODEL_COMPLEXITY[tier.model]) {
+            pose.setOptions({ modelComplexity: MODEL_COMPLEXITY[next.model] });
+        }
+        tier = next;
+        applyResolution(currentVideo, next);
+    };
+
+    const stop = () => {
+        onResults = null;
+        currentVideo = null;
+        currentCanvas = null;
+        stopFrames?.();
+        stopFrames = null;
+    };
+
+    const start: PosePipeline['start'] = (video, canvas, config, handlers) => {
+        stop();
+        const session = createPoseSession(config);
+        const metrics = handlers.onMetrics ? createMetrics('main', handlers.onMetrics) : null;
+        const ctx = canvas.getContext('2d');
+        let sentAt = 0;
+        let skipped = 0;
+        currentVideo = video;
+        currentCanvas = canvas;
+
+        onResults = (poses) => {
+            // Inference blocks this thread, so capture → result is all model time
+            const elapsed = performance.now() - sentAt;
+            metrics?.frame(elapsed, elapsed);
+
+            if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+                canvas.width = video.videoWidth;
+                canvas.height = video.videoHeight;
+            }
+            const { players, calibration } = session.process({ t: Date.now(), poses });
+            if (ctx) session.draw(ctx);
+
+            if (calibration) handlers.onCalibration(calibration, players[0].state);
+            else players.forEach(({ events, state }, player) => {
+                if (events.length > 0) handlers.onEvents(events, state, player);
+            });
+        };
+
+        // Reads the page's own <video>, so whichever camera the user picked is the one tracked
+        let running = true;
+        let busy = false;
+        const { schedule } = scheduler(video);
+        const pump = () => {
+            if (!running) return;
+            schedule(pump);
+            if (busy || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+            if (skipped < tier.frameSkip) {
+                skipped++;
+                return;
+            }
+            skipped = 0;
+            busy = true;
+            sentAt = performance.now();
+            pose.send({ image: video })
+                .catch(() => { /* Skip this frame */ })
+                .finally(() => { busy = false; });
+        };
+        schedule(pump);
+        stopFrames = () => { running = false; };
+    };
+
+    return {
+        kind: 'main',
+        // The legacy solution only ever finds one body
+        maxPlayers: 1,
+        start,
+        stop,
+        setTier,
+        // The overlay is an ordinary canvas on this thread, always ready to copy from
+        setOverlayCapture: () => undefined,
+        getOverlay: () => currentCanvas,
+    };
+};
+
+// The worker pipeline where the browser can run it, otherwise the main-thread one.
+// `prefer: 'main'` skips the worker, for comparing the two on the same device.
+export const loadPosePipeline = async (tier: PerformanceTier, prefer: PipelineKind = 'worker'): Promise<PosePipeline> => {
+    if (prefer === 'worker' && supportsWorkerPipeline()) {
+        try {
+            return await createWorkerPipeline(tier);
+        } catch {
+            // Model or WASM failed to load in the worker — fall through to the main thread
+        }
+    }
+    return createMainThreadPipeline(tier);
+};
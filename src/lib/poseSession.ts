@@ -0,0 +1,188 @@
+import { isVisible, LM, midpoint, SKELETON_CONNECTIONS, SKELETON_POINTS, type Landmark } from './pose';
+import { getExercise, type ExerciseType } from './exercises';
+import { createRepEngine, type RepEngine, type RepEngineState, type RepEvent } from './repEngine';
+import { createCalibrator, type CalibrationProgress } from './calibration';
+
+// ─── Pose Session ───
+// One workout's worth of frame processing: calibration reps first (if asked for),
+// then the rep engine, plus the skeleton overlay. Both pose pipelines run this —
+// the worker next to the model, the main-thread fallback in its results callback —
+// so counting behaves the same whichever one the device ends up with. In battle mode
+// it tracks two bodies, each with its own rep engine and skeleton colour.
+
+export interface SessionConfig {
+    exercise: ExerciseType;
+    thresholds: { down: number; up: number } | null;    // Saved calibration, if any
+    calibrate: boolean;                                 // Single player only
+    // Front camera: the overlay is drawn flipped to match the mirrored video, so its
+    // text stays readable (the canvas itself is never CSS-mirrored)
+    mirrored: boolean;
+    // Battle mode: two people side by side, each with their own rep engine. Player 0
+    // is whoever is on the left of the screen.
+    players: 1 | 2;
+}
+
+export interface SessionFrame {
+    t: number;
+    poses: Landmark[][];    // Every body the model found, in no particular order
+}
+
+export interface PlayerUpdate {
+    events: RepEvent[];
+    state: RepEngineState;
+}
+
+export interface SessionUpdate {
+    players: PlayerUpdate[];                    // One per player, by index
+    calibration: CalibrationProgress | null;    // Set on every frame while calibrating
+}
+
+export interface PoseSession {
+    process: (frame: SessionFrame) => SessionUpdate;
+    // Skeletons from the last processed frame
+    draw: (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D) => void;
+}
+
+const COLOR_CALIBRATING = '#38bdf8';
+const COLOR_READY = '#39ff14';
+const COLOR_WAITING = '#fbbf24';
+export const PLAYER_COLORS = ['#38bdf8', '#f472b6'];
+
+interface Player {
+    engine: RepEngine;
+    landmarks: Landmark[] | null;
+    center: number | null;      // Screen x of the hips when last seen
+    color: string;
+    angle: number | null;
+}
+
+const hipCenter = (landmarks: Landmark[], mirrored: boolean) => {
+    const { x } = midpoint(landmarks, LM.LEFT_HIP, LM.RIGHT_HIP);
+    return mirrored ? 1 - x : x;
+};
+
+export const createPoseSession = ({ exercise, thresholds, calibrate, mirrored, players: playerCount }: SessionConfig): PoseSession => {
+    const def = getExercise(exercise);
+    const players: Player[] = Array.from({ length: playerCount }, () => ({
+        engine: createRepEngine(exercise, thresholds ? { thresholds } : {}),
+        landmarks: null,
+        center: null,
+        color: COLOR_WAITING,
+        angle: null,
+    }));
+    let calibrator = calibrate && playerCount === 1 ? createCalibrator(exercise) : null;
+
+    // Left to right on screen. A lone body goes to whoever was last seen nearest to
+    // it, so one player stepping out of frame doesn't hand their reps to the other.
+    const assign = (poses: Landmark[][]) => {
+        if (playerCount === 1) {
+            players[0].landmarks = poses[0] ?? null;
+            return;
+        }
+        const seen = poses.slice(0, 2)
+            .map(landmarks => ({ landmarks, center: hipCenter(landmarks, mirrored) }))
+            .sort((a, b) => a.center - b.center);
+        players.forEach(p => { p.landmarks = null; });
+        if (seen.length === 2) {
+            seen.forEach((s, i) => {
+                players[i].landmarks = s.landmarks;
+                players[i].center = s.center;
+            });
+        } else if (seen.length === 1) {
+            const [{ landmarks, center }] = seen;
+            const distance = (p: Player, fallback: number) => Math.abs((p.center ?? fallback) - center);
+            const nearest = distance(players[0], 0.25) <= distance(players[1], 0.75) ? players[0] : players[1];
+            nearest.landmarks = landmarks;
+            nearest.center = center;
+        }
+    };
+
+    const process = (frame: SessionFrame): SessionUpdate => {
+        assign(frame.poses);
+        // Colour reflects readiness before this frame is counted
+        players.forEach((p, i) => {
+            const ready = playerCount === 1 ? COLOR_READY : PLAYER_COLORS[i];
+            p.color = calibrator ? COLOR_CALIBRATING : p.engine.getState().bodyReady ? ready : COLOR_WAITING;
+        });
+
+        if (calibrator) {
+            const [player] = players;
+            const progress = calibrator.process({ t: frame.t, landmarks: player.landmarks });
+            player.angle = progress.angle;
+            if (progress.result) {
+                const { down, up } = progress.result;
+                player.engine = createRepEngine(exercise, { thresholds: { down, up } });
+                calibrator = null;
+            }
+            return { players: [{ events: [], state: player.engine.getState() }], calibration: progress };
+        }
+
+        return {
+            players: players.map(p => {
+                const result = p.engine.process({ t: frame.t, landmarks: p.landmarks });
+                p.angle = result.angle;
+                return { events: result.events, state: p.engine.getState() };
+            }),
+            calibration: null,
+        };
+    };
+
+    const drawPlayer = (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, { landmarks, color, angle }: Player) => {
+        if (!landmarks) return;
+        const { width, height } = ctx.canvas;
+        const x = (lm: Landmark) => (mirrored ? 1 - lm.x : lm.x) * width;
+        const y = (lm: Landmark) => lm.y * height;
+
+        ctx.strokeStyle = color;
+        ctx.fillStyle = color;
+        ctx.lineWidth = 3;
+        SKELETON_CONNECTIONS.forEach(([from, to]) => {
+            const a = landmarks[from];
+            const b = landmarks[to];
+            if (isVisible(a) && isVisible(b)) {
+                ctx.beginPath();
+                ctx.moveTo(x(a), y(a));
+                ctx.lineTo(x(b), y(b));
+                ctx.stroke();
+            }
+        });
+
+        SKELETON_POINTS.forEach(i => {
+            const lm = landmarks[i];
+            if (isVisible(lm)) {
+                ctx.beginPath();
+                ctx.arc(x(lm), y(lm), 5, 0, 2 * Math.PI);
+                ctx.fill();
+            }
+        });
+
+        // The body's own left and right — on a mirrored view they appear on the same side as the user's
+        ctx.font = 'bold 16px monospace';
+        ctx.lineWidth = 3;
+        ctx.strokeStyle = 'black';
+        ([[def.joint.left[1], 'L'], [def.joint.right[1], 'R']] as const).forEach(([i, side]) => {
+            const lm = landmarks[i];
+            if (!isVisible(lm)) return;
+            ctx.fillStyle = color;
+            ctx.strokeText(side, x(lm) - 20, y(lm) - 10);
+            ctx.fillText(side, x(lm) - 20, y(lm) - 10);
+        });
+
+        // Show angle near the joint
+        if (angle !== null) {
+            const angleLandmark = landmarks[def.joint.labelLandmark];
+            const angleText = `${Math.round(angle)}°`;
+            ctx.font = 'bold 28px monospace';
+            ctx.fillStyle = 'white';
+            ctx.strokeText(angleText, x(angleLandmark) + 12, y(angleLandmark));
+            ctx.fillText(angleText, x(angleLandmark) + 12, y(angleLandmark));
+        }
+    };
+
+    const draw: PoseSession['draw'] = (ctx) => {
+        ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        players.forEach(p => drawPlayer(ctx, p));
+    };
+
+    return { process, draw };
+};
@@ -0,0 +1,200 @@
+import { FilesetResolver, PoseLandmarker } from '@mediapipe/tasks-vision';
+import { createPoseSession, type PoseSession, type SessionConfig } from './poseSession';
+import type { RepEngineState, RepEvent } from './repEngine';
+import type { CalibrationProgress } from './calibration';
+
+// ─── Pose Worker ───
+// Runs the MediaPipe Tasks PoseLandmarker, the rep engine and the skeleton overlay
+// off the main thread. The page transfers camera frames in as ImageBitmaps and the
+// overlay canvas as an OffscreenCanvas; what comes back is kept small: rep events as
+// they happen, status-only events (per player) and calibration progress at most every
+// STATUS_INTERVAL_MS, and one acknowledgement per frame for backpressure.
+
+export type PoseWorkerRequest =
+    | { type: 'init'; wasmPath: string; modelPath: string }
+    // Switches model size mid-session (performance tiers)
+    | { type: 'model'; modelPath: string }
+    // The canvas is only sent the first time a given <canvas> element is used
+    | { type: 'start'; session: SessionConfig; canvas?: OffscreenCanvas }
+    | { type: 'frame'; bitmap: ImageBitmap; t: number }
+    // While on, every drawn overlay is copied back for the workout recorder
+    | { type: 'overlay'; enabled: boolean }
+    | { type: 'stop' };
+
+export type PoseWorkerResponse =
+    | { type: 'ready' }
+    // Init failed, or a frame threw (it is still acknowledged with frame-done)
+    | { type: 'error'; message: string }
+    // inferenceMs is null for frames dropped while a model loads
+    | { type: 'frame-done'; inferenceMs: number | null }
+    | { type: 'events'; player: number; events: RepEvent[]; state: RepEngineState }
+    | { type: 'calibration'; progress: CalibrationProgress; state: RepEngineState }
+    | { type: 'overlay'; bitmap: ImageBitmap };
+
+const STATUS_INTERVAL_MS = 200;
+
+// Events that only change the status line; everything else is sent straight away
+const isStatusEvent = (event: RepEvent) =>
+    event.type === 'detecting' || event.type === 'position-warning' || event.type === 'stage';
+
+let landmarker: PoseLandmarker | null = null;
+// Frames are dropped while the landmarker is reconfigured (model size, pose count)
+let updatingOptions = 0;
+let numPoses = 1;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let session: PoseSession | null = null;
+let lastTimestamp = 0;
+let lastStatusAt: number[] = [];
+let pendingStatus: (RepEvent | null)[] = [];
+let calibrationReps = 0;
+let captureOverlay = false;
+
+const post = (message: PoseWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+const init = async (wasmPath: string, modelPath: string) => {
+    // Module workers can't importScripts, so load the ES module build of the WASM loader
+    const fileset = await FilesetResolver.forVisionTasks(wasmPath, true);
+    const create = (delegate: 'GPU' | 'CPU') => PoseLandmarker.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath: modelPath, delegate },
+        runningMode: 'VIDEO',
+        numPoses: 1,
+        minPoseDetectionConfidence: 0.5,
+        minPosePresenceConfidence: 0.5,
+        minTrackingConfidence: 0.5,
+    });
+    // No WebGL in this worker (older Safari, some Android WebViews) — the CPU delegate still works
+    landmarker = await create('GPU').catch(() => create('CPU'));
+};
+
+const loadModel = async (modelPath: string) => {
+    if (!landmarker) return;
+    updatingOptions++;
+    try {
+        await landmarker.setOptions({ baseOptions: { modelAssetPath: modelPath } });
+    } catch {
+        // Keep counting with the model already loaded
+    } finally {
+        updatingOptions--;
+    }
+};
+
+// Battle mode tracks two bodies; everything else asks for one, which is faster
+const setNumPoses = async (count: number) => {
+    if (!landmarker || count === numPoses) return;
+    updatingOptions++;
+    try {
+        await landmarker.setOptions({ numPoses: count });
+        numPoses = count;
+    } catch {
+        // Keep the current count; the second player just won't be found
+    } finally {
+        updatingOptions--;
+    }
+};
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Returns the model time, or null if the frame was dropped
+const runFrame = (bitmap: ImageBitmap, t: number): number | null => {
+    if (!landmarker || !session || !ctx || updatingOptions > 0) return null;
+
+    // VIDEO mode rejects timestamps that don't increase
+    const timestamp = Math.max(t, lastTimestamp + 1);
+    lastTimestamp = timestamp;
+    const started = performance.now();
+    const result = landmarker.detectForVideo(bitmap, timestamp);
+    const inferenceMs = performance.now() - started;
+
+    if (ctx.canvas.width !== bitmap.width || ctx.canvas.height !== bitmap.height) {
+        ctx.canvas.width = bitmap.width;
+        ctx.canvas.height = bitmap.height;
+    }
+    bitmap.close();
+
+    const { players, calibration } = session.process({ t, poses: result.landmarks });
+    session.draw(ctx);
+    if (captureOverlay) {
+        createImageBitmap(ctx.canvas)
+            .then(overlay => post({ type: 'overlay', bitmap: overlay }, [overlay]))
+            .catch(() => { /* The recording just misses this frame's skeleton */ });
+    }
+
+    const now = performance.now();
+    const statusDue = (player: number) => now - (lastStatusAt[player] ?? 0) >= STATUS_INTERVAL_MS;
+
+    if (calibration) {
+        // New calibration reps and the result always go through; position hints are throttled
+        if (calibration.result || calibration.reps !== calibrationReps || statusDue(0)) {
+            calibrationReps = calibration.reps;
+            lastStatusAt[0] = now;
+            post({ type: 'calibration', progress: calibration, state: players[0].state });
+        }
+        return inferenceMs;
+    }
+
+    players.forEach(({ events, state }, player) => {
+        // Only the newest status event matters, and a rep event supersedes any status before it
+        const outgoing: RepEvent[] = [];
+        for (const event of events) {
+            if (isStatusEvent(event)) {
+                pendingStatus[player] = event;
+            } else {
+                outgoing.push(event);
+                pendingStatus[player] = null;
+            }
+        }
+        const status = pendingStatus[player];
+        if (status && statusDue(player)) {
+            outgoing.push(status);
+            pendingStatus[player] = null;
+            lastStatusAt[player] = now;
+        }
+        if (outgoing.length > 0) post({ type: 'events', player, events: outgoing, state });
+    });
+    return inferenceMs;
+};
+
+// Every frame is acknowledged, even one that failed — the page sends no more until it is
+const processFrame = (bitmap: ImageBitmap, t: number) => {
+    let inferenceMs: number | null = null;
+    try {
+        inferenceMs = runFrame(bitmap, t);
+    } catch (err) {
+        post({ type: 'error', message: errorMessage(err) });
+    } finally {
+        bitmap.close();
+        post({ type: 'frame-done', inferenceMs });
+    }
+};
+
+self.onmessage = (e: MessageEvent<PoseWorkerRequest>) => {
+    const message = e.data;
+    switch (message.type) {
+        case 'init':
+            init(message.wasmPath, message.modelPath)
+                .then(() => post({ type: 'ready' }))
+                .catch((err: unknown) => post({ type: 'error', message: errorMessage(err) }));
+            break;
+        case 'model':
+            void loadModel(message.modelPath);
+            break;
+        case 'start':
+            if (message.canvas) ctx = message.canvas.getContext('2d');
+            session = createPoseSession(message.session);
+            void setNumPoses(message.session.players);
+            lastStatusAt = [];
+            pendingStatus = [];
+            calibrationReps = 0;
+            break;
+        case 'frame':
+            processFrame(message.bitmap, message.t);
+            break;
+        case 'overlay':
+            captureOverlay = message.enabled;
+            break;
+        case 'stop':
+            session = null;
+            ctx?.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+            break;
+    }
+};
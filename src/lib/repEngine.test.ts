@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { replayFrames, type PoseFrame } from './repEngine';
+import pushupsGood from './fixtures/pushups-good.json';
+import pushupsShallow from './fixtures/pushups-shallow.json';
+import pushupsStandingUp from './fixtures/pushups-standing-up.json';
+import pushupsArmsOnly from './fixtures/pushups-arms-only.json';
+import squatsGood from './fixtures/squats-good.json';
+import squatsShallow from './fixtures/squats-shallow.json';
+import squatsStanding from './fixtures/squats-standing.json';
+
+// Side-view landmark recordings at 15 fps, each starting with a moment in position:
+//   pushups-good        — five full reps at uneven tempo
+//   pushups-shallow     — one full rep, then three that stop well short of depth
+//   pushups-standing-up — two full reps, then standing and bending the arms three times
+//   pushups-arms-only   — three elbow bends while the shoulders and hips never move
+//   squats-good         — four full squats
+//   squats-shallow      — three half squats
+//   squats-standing     — standing between sets with soft knees, then walking out of frame
+
+describe('replayFrames', () => {
+    describe('push-ups', () => {
+        const replay = (frames: PoseFrame[]) => replayFrames('pushups', frames).state;
+
+        it('counts every full rep', () => {
+            expect(replay(pushupsGood)).toMatchObject({ count: 5, suspiciousCount: 0 });
+        });
+
+        it('turns reps that never reach depth into no-reps', () => {
+            expect(replay(pushupsShallow)).toMatchObject({ count: 1, noRepCount: 3 });
+        });
+
+        it('stops counting once the user stands up', () => {
+            expect(replay(pushupsStandingUp).count).toBe(2);
+        });
+
+        it('flags reps where only the arms move', () => {
+            expect(replay(pushupsArmsOnly)).toMatchObject({ count: 0, suspiciousCount: 3 });
+        });
+    });
+
+    describe('squats', () => {
+        const replay = (frames: PoseFrame[]) => replayFrames('squats', frames).state;
+
+        it('counts every full squat', () => {
+            expect(replay(squatsGood)).toMatchObject({ count: 4, suspiciousCount: 0 });
+        });
+
+        it('turns half squats into no-reps', () => {
+            expect(replay(squatsShallow)).toMatchObject({ count: 0, noRepCount: 3 });
+        });
+
+        it('counts nothing while the user just stands', () => {
+            // Soft knees stay above the no-rep depth too
+            expect(replay(squatsStanding)).toMatchObject({ count: 0, noRepCount: 0 });
+        });
+    });
+});
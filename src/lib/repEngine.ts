@@ -0,0 +1,251 @@
+import { getJointAngle, type Landmark } from './pose';
+import { checkExercisePosition, getExercise, type ExerciseType, type PositionCheck } from './exercises';
+import { createFormTracker, type RepQuality } from './formScore';
+import { createRepVerifier } from './repVerifier';
+import type { MessageKey } from './i18n';
+
+// ─── Rep Counting Engine ───
+// Framework-free state machine: feed it timestamped landmark frames, get events
+// back. No DOM, no React, no clocks — everything runs off the frame timestamps,
+// so recorded landmark streams replay exactly the same as a live camera.
+
+export interface PoseFrame {
+    t: number;                      // Timestamp in ms
+    landmarks: Landmark[] | null;   // null when MediaPipe found no body
+}
+
+export type Stage = 'UP' | 'DOWN';
+
+export type RepEvent =
+    | { type: 'detecting'; t: number; frames: number; needed: number }
+    | { type: 'body-ready'; t: number }
+    | { type: 'stage'; t: number; stage: Stage }
+    // Eccentric: top → lowest point; concentric: lowest point → back at the top
+    | { type: 'rep'; t: number; count: number; quality: RepQuality; eccentricMs: number; concentricMs: number }
+    | { type: 'no-rep'; t: number; noRepCount: number; minAngle: number }
+    // A full rep that didn't look genuine (see repVerifier.ts); not counted
+    | { type: 'suspicious-rep'; t: number; suspiciousCount: number; reason: MessageKey }
+    | { type: 'hold-second'; t: number; seconds: number }
+    | { type: 'position-warning'; t: number; reason: MessageKey; bodyReady: boolean };
+
+export interface RepEngineOptions {
+    bodyReadyThreshold: number;     // Good frames needed before counting starts
+    repCooldownMs: number;          // Minimum gap between two reps
+    smoothFactor: number;           // Higher = more smoothing (60% old, 40% new)
+    badFrameTolerance: number;      // How many bad frames before pausing
+    // A descent past this fraction of the up→down range that turns back before
+    // reaching depth counts as a "no rep"; shallower wobbles are ignored
+    partialRepFraction: number;
+    thresholds?: { down: number; up: number };   // Overrides the exercise defaults
+}
+
+// Tuned for fast pushups
+export const DEFAULT_ENGINE_OPTIONS: RepEngineOptions = {
+    bodyReadyThreshold: 5,
+    repCooldownMs: 150,     // Very short cooldown for fast reps
+    smoothFactor: 0.6,
+    badFrameTolerance: 5,
+    partialRepFraction: 0.4,
+};
+
+export interface RepEngineState {
+    count: number;
+    noRepCount: number;
+    suspiciousCount: number;        // Reps rejected by verification
+    heldMs: number;                 // Time under correct position (hold exercises)
+    stage: Stage;
+    bodyReady: boolean;
+    angle: number | null;           // Smoothed joint angle of the last counted frame
+}
+
+export interface RepFrameResult {
+    events: RepEvent[];
+    // Smoothed angle for this frame, null while not counting
+    angle: number | null;
+    position: PositionCheck | null;
+}
+
+export interface RepEngine {
+    process: (frame: PoseFrame) => RepFrameResult;
+    getState: () => RepEngineState;
+    reset: () => void;
+}
+
+export const createRepEngine = (exercise: ExerciseType, options: Partial<RepEngineOptions> = {}): RepEngine => {
+    const opts: RepEngineOptions = { ...DEFAULT_ENGINE_OPTIONS, ...options };
+    const def = getExercise(exercise);
+    const { down: downThreshold, up: upThreshold } = opts.thresholds ?? def.thresholds;
+
+    let count = 0;
+    let noRepCount = 0;
+    let suspiciousCount = 0;
+    let heldMs = 0;
+    // Timestamp of the previous frame that counted towards the hold
+    let lastHoldTime: number | null = null;
+    let stage: Stage = 'UP';
+    let bodyReady = false;
+    let bodyReadyFrames = 0;
+    let badFrameCount = 0;
+    let lastRepTime = -Infinity;
+    let smoothAngle: number = def.thresholds.rest;
+    let lastAngle: number | null = null;
+    // Last time the joint was at the top — a rep's tempo is measured from here
+    let repStartTime = -Infinity;
+    // Lowest angle of the current descent while still in the UP stage
+    let attemptMin = Infinity;
+    // Lowest point of the current rep while in the DOWN stage — splits its tempo in two
+    let bottomAngle = Infinity;
+    let bottomTime = -Infinity;
+    const partialThreshold = upThreshold - (upThreshold - downThreshold) * opts.partialRepFraction;
+    const form = createFormTracker(def.formMetrics, { down: downThreshold, up: upThreshold });
+    const verifier = createRepVerifier(def.movementChecks);
+
+    const reset = () => {
+        count = 0;
+        noRepCount = 0;
+        suspiciousCount = 0;
+        heldMs = 0;
+        lastHoldTime = null;
+        attemptMin = Infinity;
+        bottomAngle = Infinity;
+        bottomTime = -Infinity;
+        stage = 'UP';
+        bodyReady = false;
+        bodyReadyFrames = 0;
+        badFrameCount = 0;
+        lastRepTime = -Infinity;
+        smoothAngle = def.thresholds.rest;
+        lastAngle = null;
+        repStartTime = -Infinity;
+        form.reset();
+        verifier.reset();
+    };
+
+    const process = ({ t, landmarks }: PoseFrame): RepFrameResult => {
+        const events: RepEvent[] = [];
+
+        if (!landmarks) {
+            if (bodyReady) {
+                bodyReadyFrames = 0;
+            }
+            lastHoldTime = null;
+            return { events, angle: null, position: null };
+        }
+
+        const position = checkExercisePosition(def, landmarks);
+
+        if (!bodyReady) {
+            if (position.ok) {
+                bodyReadyFrames++;
+                if (bodyReadyFrames >= opts.bodyReadyThreshold) {
+                    bodyReady = true;
+                    stage = 'UP';
+                    smoothAngle = def.thresholds.rest;
+                    repStartTime = t;
+                    events.push({ type: 'body-ready', t });
+                } else {
+                    events.push({ type: 'detecting', t, frames: bodyReadyFrames, needed: opts.bodyReadyThreshold });
+                }
+            } else {
+                bodyReadyFrames = Math.max(0, bodyReadyFrames - 1);
+                events.push({ type: 'position-warning', t, reason: position.reason, bodyReady: false });
+            }
+            return { events, angle: null, position };
+        }
+
+        if (!position.ok) {
+            badFrameCount++;
+            if (badFrameCount >= opts.badFrameTolerance) {
+                lastHoldTime = null;
+                events.push({ type: 'position-warning', t, reason: position.reason, bodyReady: true });
+                return { events, angle: null, position };
+            }
+        } else {
+            badFrameCount = 0;
+        }
+
+        // Holds: the clock runs while the position is good (or only briefly broken)
+        if (def.kind === 'hold') {
+            const before = Math.floor(heldMs / 1000);
+            if (lastHoldTime !== null) heldMs += t - lastHoldTime;
+            lastHoldTime = t;
+            const seconds = Math.floor(heldMs / 1000);
+            if (seconds > before) events.push({ type: 'hold-second', t, seconds });
+            const holdAngle = getJointAngle(landmarks, def.joint.left, def.joint.right);
+            lastAngle = holdAngle;
+            return { events, angle: holdAngle, position };
+        }
+
+        const rawAngle = getJointAngle(landmarks, def.joint.left, def.joint.right);
+        if (rawAngle === null) return { events, angle: null, position };
+
+        smoothAngle = opts.smoothFactor * smoothAngle + (1 - opts.smoothFactor) * rawAngle;
+        const angle = smoothAngle;
+        lastAngle = angle;
+        form.sample(landmarks, angle);
+
+        if (stage === 'UP') {
+            if (angle > upThreshold) {
+                // Back at the top: a descent that went partway but never reached depth is a no-rep
+                if (attemptMin < partialThreshold) {
+                    noRepCount += 1;
+                    events.push({ type: 'no-rep', t, noRepCount, minAngle: attemptMin });
+                    form.reset();
+                }
+                attemptMin = Infinity;
+                repStartTime = t;
+                // Body movement is measured from the last frame at the top
+                verifier.discardRep();
+            } else {
+                attemptMin = Math.min(attemptMin, angle);
+            }
+        }
+        verifier.sample(landmarks);
+
+        if (angle < downThreshold && stage !== 'DOWN') {
+            stage = 'DOWN';
+            attemptMin = Infinity;
+            bottomAngle = Infinity;
+            events.push({ type: 'stage', t, stage });
+        }
+
+        if (stage === 'DOWN' && angle < bottomAngle) {
+            bottomAngle = angle;
+            bottomTime = t;
+        }
+
+        if (angle > upThreshold && stage === 'DOWN' && t - lastRepTime > opts.repCooldownMs) {
+            stage = 'UP';
+            lastRepTime = t;
+            const durationMs = t - repStartTime;
+            const eccentricMs = bottomTime - repStartTime;
+            const concentricMs = t - bottomTime;
+            repStartTime = t;
+            events.push({ type: 'stage', t, stage });
+
+            const suspicion = verifier.finishRep(durationMs);
+            if (suspicion) {
+                suspiciousCount += 1;
+                form.reset();
+                events.push({ type: 'suspicious-rep', t, suspiciousCount, reason: suspicion });
+            } else {
+                count += 1;
+                const quality = form.finishRep(durationMs);
+                events.push({ type: 'rep', t, count, quality, eccentricMs, concentricMs });
+            }
+        }
+
+        return { events, angle, position };
+    };
+
+    const getState = (): RepEngineState => ({ count, noRepCount, suspiciousCount, heldMs, stage, bodyReady, angle: lastAngle });
+
+    return { process, getState, reset };
+};
+
+// Run a whole recorded session through a fresh engine
+export const replayFrames = (exercise: ExerciseType, frames: PoseFrame[], options?: Partial<RepEngineOptions>) => {
+    const engine = createRepEngine(exercise, options);
+    const events = frames.flatMap(f => engine.process(f).events);
+    return { events, state: engine.getState() };
+};
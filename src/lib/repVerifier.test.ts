@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { LM, type Landmark } from './pose';
+import { createRepVerifier, hipDropCheck } from './repVerifier';
+
+// A side-on squatter: shoulders, hips and ankles, with the ankles optionally out of view
+const body = (hipY: number, anklesVisible = true): Landmark[] => {
+    const landmarks: Landmark[] = Array.from({ length: 33 }, () => ({ x: 0, y: 0 }));
+    const pair = (left: number, y: number, visibility = 0.9) => {
+        landmarks[left] = { x: 0.5, y, visibility };
+        landmarks[left + 1] = { x: 0.5, y, visibility };
+    };
+    pair(LM.LEFT_SHOULDER, hipY - 0.26);
+    pair(LM.LEFT_HIP, hipY);
+    pair(LM.LEFT_ANKLE, 0.9, anklesVisible ? 0.9 : 0);
+    return landmarks;
+};
+
+describe('createRepVerifier', () => {
+    it('passes a rep where the hips come down', () => {
+        const verifier = createRepVerifier([hipDropCheck]);
+        [0.55, 0.65, 0.72, 0.65, 0.55].forEach(y => verifier.sample(body(y)));
+        expect(verifier.finishRep(1500)).toBeNull();
+    });
+
+    it('flags a rep where the hips stay put', () => {
+        const verifier = createRepVerifier([hipDropCheck]);
+        [0.55, 0.56, 0.55].forEach(y => verifier.sample(body(y)));
+        expect(verifier.finishRep(1500)).toBe('verify.hipsStill');
+    });
+
+    it('flags a rep it could never check', () => {
+        const verifier = createRepVerifier([hipDropCheck]);
+        [0.55, 0.65, 0.72, 0.65, 0.55].forEach(y => verifier.sample(body(y, false)));
+        expect(verifier.finishRep(1500)).toBe('verify.notVisible');
+    });
+});
@@ -0,0 +1,171 @@
+import type { MessageKey } from './i18n';
+import { LM, isVisible, type Landmark } from './pose';
+
+// ─── Rep Verification ───
+// The joint angle alone is easy to fake: kneel, flap your arms, and the elbow goes
+// through a perfect push-up. Each rep is therefore also checked for whole-body
+// movement (the exercise's movement checks), and the rhythm across reps for a
+// cadence too fast or too even to be a person. Reps that fail — or that can't be
+// checked because the body parts were never in view — are flagged and not counted;
+// the session's trust score is the share of reps that passed.
+
+export interface MovementCheck {
+    id: string;
+    // Left/right landmark pairs that must travel up or down during the rep...
+    parts: [number, number][];
+    // ...relative to this pair, which should stay planted (wrists, ankles)
+    anchor: [number, number];
+    minTravel: number;      // In torso lengths
+    reason: MessageKey;
+}
+
+// Push-ups: shoulders and hips both sink towards the hands
+export const bodyDropCheck: MovementCheck = {
+    id: 'bodyDrop',
+    parts: [[LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER], [LM.LEFT_HIP, LM.RIGHT_HIP]],
+    anchor: [LM.LEFT_WRIST, LM.RIGHT_WRIST],
+    minTravel: 0.15,
+    reason: 'verify.bodyStill',
+};
+
+// Squats / lunges: hips come down towards the feet
+export const hipDropCheck: MovementCheck = {
+    id: 'hipDrop',
+    parts: [[LM.LEFT_HIP, LM.RIGHT_HIP]],
+    anchor: [LM.LEFT_ANKLE, LM.RIGHT_ANKLE],
+    minTravel: 0.2,
+    reason: 'verify.hipsStill',
+};
+
+// Sit-ups: shoulders come up off the floor, feet stay down
+export const shoulderRiseCheck: MovementCheck = {
+    id: 'shoulderRise',
+    parts: [[LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER]],
+    anchor: [LM.LEFT_ANKLE, LM.RIGHT_ANKLE],
+    minTravel: 0.3,
+    reason: 'verify.shouldersStill',
+};
+
+// Glute bridges: hips lift off the floor, feet stay down
+export const hipRiseCheck: MovementCheck = {
+    id: 'hipRise',
+    parts: [[LM.LEFT_HIP, LM.RIGHT_HIP]],
+    anchor: [LM.LEFT_ANKLE, LM.RIGHT_ANKLE],
+    minTravel: 0.2,
+    reason: 'verify.hipsLow',
+};
+
+// Shoulder press: hands go up from the shoulders, which stay put
+export const pressCheck: MovementCheck = {
+    id: 'press',
+    parts: [[LM.LEFT_WRIST, LM.RIGHT_WRIST]],
+    anchor: [LM.LEFT_SHOULDER, LM.RIGHT_SHOULDER],
+    minTravel: 0.3,
+    reason: 'verify.handsLow',
+};
+
+// An anchor that moves more than this isn't planted — the "drop" came from it
+const MAX_ANCHOR_TRAVEL = 0.25;
+// Faster than this from top to top isn't a real rep
+const MIN_REP_MS = 300;
+// Across this many reps in a row, durations varying by less than this are machine-like
+const CADENCE_WINDOW = 8;
+const MIN_CADENCE_VARIATION = 0.02;
+
+// Whichever side of a pair the camera sees, averaged when both are visible
+const pairY = (landmarks: Landmark[], [left, right]: [number, number]): number | null => {
+    const seen = [landmarks[left], landmarks[right]].filter(lm => isVisible(lm));
+    return seen.length > 0 ? seen.reduce((sum, lm) => sum + lm.y, 0) / seen.length : null;
+};
+
+// Shoulder to hip on whichever side the camera sees best
+const torsoLength = (landmarks: Landmark[]): number | null => {
+    const side = [[LM.LEFT_SHOULDER, LM.LEFT_HIP], [LM.RIGHT_SHOULDER, LM.RIGHT_HIP]]
+        .find(pair => pair.every(i => isVisible(landmarks[i])));
+    if (!side) return null;
+    const [shoulder, hip] = side.map(i => landmarks[i]);
+    const length = Math.hypot(shoulder.x - hip.x, shoulder.y - hip.y);
+    return length > 0.02 ? length : null;
+};
+
+// 0–100; a session with no reps has nothing to distrust
+export const trustScore = (counted: number, suspicious: number) =>
+    counted + suspicious > 0 ? Math.round(counted * 100 / (counted + suspicious)) : 100;
+
+export interface RepVerifier {
+    sample: (landmarks: Landmark[]) => void;
+    // The reason a rep is rejected, or null if it looks genuine
+    finishRep: (durationMs: number) => MessageKey | null;
+    // Drops the current rep's samples (an abandoned descent)
+    discardRep: () => void;
+    reset: () => void;
+}
+
+export const createRepVerifier = (checks: MovementCheck[]): RepVerifier => {
+    // Per check, the range of each part's height above the anchor, and of the anchor itself
+    let ranges: Record<string, { parts: { min: number; max: number }[]; anchor: { min: number; max: number } }> = {};
+    let durations: number[] = [];
+
+    const widen = (range: { min: number; max: number }, value: number) => {
+        range.min = Math.min(range.min, value);
+        range.max = Math.max(range.max, value);
+    };
+
+    const sample = (landmarks: Landmark[]) => {
+        const torso = torsoLength(landmarks);
+        if (torso === null) return;
+
+        checks.forEach(check => {
+            const anchor = pairY(landmarks, check.anchor);
+            const parts = check.parts.map(pair => pairY(landmarks, pair));
+            if (anchor === null || parts.some(y => y === null)) return;
+            const r = ranges[check.id] ??= {
+                parts: parts.map(() => ({ min: Infinity, max: -Infinity })),
+                anchor: { min: Infinity, max: -Infinity },
+            };
+            // In torso lengths, so it doesn't matter how far the camera is
+            widen(r.anchor, anchor / torso);
+            parts.forEach((y, i) => widen(r.parts[i], (anchor - y!) / torso));
+        });
+    };
+
+    const checkMovement = (): MessageKey | null => {
+        for (const check of checks) {
+            const r = ranges[check.id];
+            // Never saw the body parts this rep — keeping them out of view mustn't pass
+            if (!r) return 'verify.notVisible';
+            const planted = r.anchor.max - r.anchor.min <= MAX_ANCHOR_TRAVEL;
+            const moved = r.parts.every(p => p.max - p.min >= check.minTravel);
+            if (!planted || !moved) return check.reason;
+        }
+        return null;
+    };
+
+    const checkCadence = (durationMs: number): MessageKey | null => {
+        durations.push(durationMs);
+        if (durations.length > CADENCE_WINDOW) durations.shift();
+        if (durationMs < MIN_REP_MS) return 'verify.tooFast';
+        if (durations.length < CADENCE_WINDOW) return null;
+
+        const mean = durations.reduce((a, b) => a + b, 0) / durations.length;
+        const variance = durations.reduce((sum, d) => sum + (d - mean) ** 2, 0) / durations.length;
+        return Math.sqrt(variance) / mean < MIN_CADENCE_VARIATION ? 'verify.tooRegular' : null;
+    };
+
+    const discardRep = () => {
+        ranges = {};
+    };
+
+    const finishRep = (durationMs: number) => {
+        const reason = checkCadence(durationMs) ?? checkMovement();
+        discardRep();
+        return reason;
+    };
+
+    const reset = () => {
+        discardRep();
+        durations = [];
+    };
+
+    return { sample, finishRep, discardRep, reset };
+};
@@ -0,0 +1,12 @@
+// ─── Service worker registration ───
+// Production only: the dev server serves unbundled modules that the worker's precache
+// list doesn't know about.
+
+export const registerServiceWorker = () => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    window.addEventListener('load', () => {
+        navigator.serviceWorker
+            .register(`${import.meta.env.BASE_URL}sw.js`)
+            .catch(() => { /* Unsupported context (e.g. some WebViews) — the app still works online */ });
+    });
+};
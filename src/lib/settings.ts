@@ -0,0 +1,44 @@
+import type { Locale } from './i18n';
+import type { TierId } from './performanceTier';
+import type { RecordingMode } from './workoutRecorder';
+import type { ShareFormat, ShareTemplate } from './shareCard';
+import { DEFAULT_CAMERA, type CameraChoice } from './camera';
+
+// ─── User Settings ───
+// Small device-local preferences, persisted as one localStorage blob.
+
+export interface Settings {
+    voiceCoach: boolean;        // Speak reps and cues instead of beeping
+    language: Locale | null;    // null follows Telegram / the browser
+    performanceTier: TierId | null;     // Last tier this device settled on; null until measured
+    recording: RecordingMode;           // Workout video, off by default
+    shareTemplate: ShareTemplate;       // Last share card picked
+    shareFormat: ShareFormat;
+    camera: CameraChoice;
+}
+
+const SETTINGS_KEY = 'pushup_settings';
+
+const DEFAULT_SETTINGS: Settings = {
+    voiceCoach: false,
+    language: null,
+    performanceTier: null,
+    recording: { kind: 'off' },
+    shareTemplate: 'stats',
+    shareFormat: 'story',
+    camera: DEFAULT_CAMERA,
+};
+
+export const getSettings = (): Settings => {
+    try {
+        return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+    } catch {
+        return DEFAULT_SETTINGS;
+    }
+};
+
+export const saveSettings = (changes: Partial<Settings>): Settings => {
+    const settings = { ...getSettings(), ...changes };
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    return settings;
+};
@@ -0,0 +1,18 @@
+// ─── File Sharing ───
+// Web Share sheet where the WebView supports sharing files, plain download otherwise.
+
+export const shareFile = async (file: File, title: string, text?: string): Promise<'shared' | 'downloaded'> => {
+    if (navigator.share && navigator.canShare && navigator.canShare({ files: [file] })) {
+        await navigator.share({ title, text, files: [file] });
+        return 'shared';
+    }
+
+    const url = URL.createObjectURL(file);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.name;
+    a.click();
+    // Revoking straight away cancels the download in Safari and some WebViews
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    return 'downloaded';
+};
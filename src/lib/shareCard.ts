@@ -0,0 +1,222 @@
+import { getExercise, type ExerciseType } from './exercises';
+import { t, type MessageKey } from './i18n';
+
+// ─── Share Cards ───
+// Result images for stories and chats. A template is a vertical stack of blocks laid
+// out in 1080-wide units; the stack is scaled to fit whichever format is picked, so
+// every template works at 9:16, 1:1 and 16:9.
+
+export type ShareTemplate = 'minimal' | 'stats' | 'tempo' | 'dragon';
+export type ShareFormat = 'story' | 'square' | 'wide';
+
+export const SHARE_TEMPLATES: { id: ShareTemplate; label: MessageKey }[] = [
+    { id: 'minimal', label: 'share.templateMinimal' },
+    { id: 'stats', label: 'share.templateStats' },
+    { id: 'tempo', label: 'share.templateTempo' },
+    { id: 'dragon', label: 'share.templateDragon' },
+];
+
+export const SHARE_FORMATS: { id: ShareFormat; label: string; width: number; height: number }[] = [
+    { id: 'story', label: '9:16', width: 1080, height: 1920 },
+    { id: 'square', label: '1:1', width: 1080, height: 1080 },
+    { id: 'wide', label: '16:9', width: 1920, height: 1080 },
+];
+
+export interface ShareCardData {
+    headline: string;       // Rep count, or the time held for hold exercises
+    count: number;          // Picks the noun's plural form
+    exercise: ExerciseType;
+    badge?: string;         // Personal best line
+    stats: string;          // Duration and all-time total
+    weekTotal: string;
+    streak: number;         // Days in a row
+    tempo: number[];        // Rep durations in ms, in order
+}
+
+// The tempo card needs a line to draw
+export const availableTemplates = (data: ShareCardData) =>
+    SHARE_TEMPLATES.filter(tpl => tpl.id !== 'tempo' || data.tempo.length >= 2);
+
+const ACCENT = '#39ff14';
+const HINT = '#94a3b8';
+const MUTED = '#64748b';
+const GOLD = '#fbbf24';
+const FONT = 'system-ui, sans-serif';
+
+type Block =
+    | { kind: 'text'; text: string; size: number; color: string; bold?: boolean; glow?: boolean }
+    | { kind: 'image'; image: HTMLImageElement; height: number }
+    | { kind: 'sparkline'; values: number[]; height: number }
+    | { kind: 'divider' }
+    | { kind: 'gap'; height: number };
+
+const blockHeight = (block: Block) => {
+    switch (block.kind) {
+        case 'text': return block.size * 1.3;
+        case 'image':
+        case 'sparkline':
+        case 'gap': return block.height;
+        case 'divider': return 60;
+    }
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${src}`));
+    image.src = src;
+});
+
+const buildBlocks = async (data: ShareCardData, template: ShareTemplate): Promise<Block[]> => {
+    const { shareLabel, emoji } = getExercise(data.exercise);
+    const label: Block = { kind: 'text', text: t(shareLabel, { count: data.count }), size: 40, color: HINT };
+    const badge: Block[] = data.badge ? [{ kind: 'text', text: data.badge, size: 44, color: GOLD, bold: true }] : [];
+    const streak: Block[] = data.streak > 0 ? [{ kind: 'text', text: t('share.streak', { count: data.streak }), size: 44, color: GOLD }] : [];
+    const brand: Block[] = [
+        { kind: 'text', text: `${emoji} ${t('app.name').toUpperCase()}`, size: 36, color: ACCENT, bold: true },
+        { kind: 'text', text: t('app.tagline'), size: 30, color: MUTED },
+    ];
+
+    switch (template) {
+        case 'minimal':
+            return [
+                { kind: 'text', text: data.headline, size: 260, color: ACCENT, bold: true, glow: true },
+                label,
+                { kind: 'gap', height: 80 },
+                brand[0],
+            ];
+        case 'stats':
+            return [
+                { kind: 'text', text: t('results.title'), size: 48, color: ACCENT, bold: true },
+                { kind: 'text', text: data.headline, size: 220, color: ACCENT, bold: true, glow: true },
+                label,
+                ...badge,
+                { kind: 'text', text: data.stats, size: 52, color: 'white', bold: true },
+                { kind: 'divider' },
+                { kind: 'text', text: t('share.week', { total: data.weekTotal }), size: 44, color: 'white' },
+                ...streak,
+                { kind: 'divider' },
+                ...brand,
+            ];
+        case 'tempo':
+            return [
+                { kind: 'text', text: data.headline, size: 200, color: ACCENT, bold: true, glow: true },
+                label,
+                { kind: 'gap', height: 30 },
+                { kind: 'text', text: t('results.tempo'), size: 32, color: MUTED },
+                { kind: 'sparkline', values: data.tempo, height: 260 },
+                { kind: 'text', text: data.stats, size: 44, color: 'white', bold: true },
+                { kind: 'divider' },
+                brand[0],
+            ];
+        case 'dragon':
+            return [
+                { kind: 'image', image: await loadImage(`${import.meta.env.BASE_URL}dragon-happy.png`), height: 520 },
+                { kind: 'text', text: data.headline, size: 200, color: ACCENT, bold: true, glow: true },
+                label,
+                ...badge,
+                { kind: 'gap', height: 40 },
+                ...brand,
+            ];
+    }
+};
+
+const drawSparkline = (ctx: CanvasRenderingContext2D, values: number[], cx: number, top: number, width: number, height: number) => {
+    const max = Math.max(...values);
+    const min = Math.min(...values);
+    const span = max - min || 1;
+    const left = cx - width / 2;
+    const pad = height * 0.1;
+    const points = values.map((v, i) => ({
+        x: left + (i / (values.length - 1)) * width,
+        y: top + pad + (1 - (v - min) / span) * (height - 2 * pad),
+    }));
+
+    const fill = ctx.createLinearGradient(0, top, 0, top + height);
+    fill.addColorStop(0, 'rgba(57,255,20,0.35)');
+    fill.addColorStop(1, 'rgba(57,255,20,0)');
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, top + height);
+    points.forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.lineTo(points[points.length - 1].x, top + height);
+    ctx.closePath();
+    ctx.fillStyle = fill;
+    ctx.fill();
+
+    ctx.beginPath();
+    points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.strokeStyle = ACCENT;
+    ctx.lineWidth = height / 40;
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+};
+
+export const renderShareCard = async (data: ShareCardData, template: ShareTemplate, format: ShareFormat): Promise<File> => {
+    const { width: W, height: H } = SHARE_FORMATS.find(f => f.id === format)!;
+    const canvas = document.createElement('canvas');
+    canvas.width = W;
+    canvas.height = H;
+    const ctx = canvas.getContext('2d')!;
+
+    // Background gradient
+    const bg = ctx.createLinearGradient(0, 0, 0, H);
+    bg.addColorStop(0, '#0a0f1a');
+    bg.addColorStop(0.5, '#0f172a');
+    bg.addColorStop(1, '#1a2744');
+    ctx.fillStyle = bg;
+    ctx.fillRect(0, 0, W, H);
+
+    // Glow behind the stack — warm for the dragon, neon otherwise
+    const glowColor = template === 'dragon' ? '251,146,60' : '57,255,20';
+    const glow = ctx.createRadialGradient(W / 2, H * 0.42, 0, W / 2, H * 0.42, Math.min(W, H) * 0.35);
+    glow.addColorStop(0, `rgba(${glowColor},0.18)`);
+    glow.addColorStop(1, `rgba(${glowColor},0)`);
+    ctx.fillStyle = glow;
+    ctx.fillRect(0, 0, W, H);
+
+    // Scale the stack to the width, then shrink it further if it runs out of height
+    const blocks = await buildBlocks(data, template);
+    const total = blocks.reduce((sum, b) => sum + blockHeight(b), 0);
+    const scale = Math.min(W / 1080, (H * 0.86) / total);
+    let y = (H - total * scale) / 2;
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    blocks.forEach(block => {
+        const h = blockHeight(block) * scale;
+        switch (block.kind) {
+            case 'text':
+                ctx.fillStyle = block.color;
+                ctx.font = `${block.bold ? 'bold ' : ''}${Math.round(block.size * scale)}px ${FONT}`;
+                if (block.glow) {
+                    ctx.shadowColor = block.color;
+                    ctx.shadowBlur = 60 * scale;
+                }
+                ctx.fillText(block.text, W / 2, y + h / 2, W * 0.9);
+                ctx.shadowBlur = 0;
+                break;
+            case 'image': {
+                const w = h * (block.image.naturalWidth / block.image.naturalHeight);
+                ctx.drawImage(block.image, (W - w) / 2, y, w, h);
+                break;
+            }
+            case 'sparkline':
+                drawSparkline(ctx, block.values, W / 2, y, 800 * scale, h);
+                break;
+            case 'divider':
+                ctx.strokeStyle = 'rgba(57,255,20,0.3)';
+                ctx.lineWidth = 2 * scale;
+                ctx.beginPath();
+                ctx.moveTo(W / 2 - 330 * scale, y + h / 2);
+                ctx.lineTo(W / 2 + 330 * scale, y + h / 2);
+                ctx.stroke();
+                break;
+            case 'gap':
+                break;
+        }
+        y += h;
+    });
+
+    const blob = await new Promise<Blob>((resolve) => canvas.toBlob((b) => resolve(b!), 'image/png'));
+    return new File([blob], `workout-result-${template}-${format}.png`, { type: 'image/png' });
+};
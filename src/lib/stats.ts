@@ -0,0 +1,195 @@
+import { getExercise, type ExerciseType } from './exercises';
+import type { RepTiming, WorkoutRecord } from './history';
+import { getLocale } from './i18n';
+
+// ─── Progress Stats ───
+// Derived from the full WorkoutRecord history; all dates use the device's local day.
+
+export type Period = 'day' | 'week' | 'month';
+
+export interface Bucket {
+    key: string;        // Local start of the bucket, YYYY-MM-DD
+    label: string;
+    total: number;
+}
+
+// Reps, or seconds held for hold exercises
+export const recordValue = (r: WorkoutRecord) =>
+    getExercise(r.exercise).kind === 'hold' ? r.holdSec ?? 0 : r.count;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+export const dayKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+// Local midnight at the start of the day, week (Monday) or month containing `date`
+export const startOf = (date: Date, period: Period): Date => {
+    const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    if (period === 'week') {
+        // Weeks start on Monday
+        d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+    } else if (period === 'month') {
+        d.setDate(1);
+    }
+    return d;
+};
+
+const step = (date: Date, period: Period, n: number): Date => {
+    const d = new Date(date);
+    if (period === 'day') d.setDate(d.getDate() + n);
+    else if (period === 'week') d.setDate(d.getDate() + 7 * n);
+    else d.setMonth(d.getMonth() + n);
+    return d;
+};
+
+const bucketLabel = (d: Date, period: Period) => {
+    if (period === 'month') return d.toLocaleDateString(getLocale(), { month: 'short' });
+    if (period === 'week') return d.toLocaleDateString(getLocale(), { day: 'numeric', month: 'numeric' });
+    return d.toLocaleDateString(getLocale(), { weekday: 'narrow' });
+};
+
+// The last `count` periods up to and including `now`, oldest first
+export const totalsByPeriod = (
+    records: WorkoutRecord[],
+    exercise: ExerciseType,
+    period: Period,
+    count: number,
+    now = new Date(),
+): Bucket[] => {
+    const current = startOf(now, period);
+    const buckets: Bucket[] = Array.from({ length: count }, (_, i) => {
+        const start = step(current, period, i - count + 1);
+        return { key: dayKey(start), label: bucketLabel(start, period), total: 0 };
+    });
+    const index = new Map(buckets.map((b, i) => [b.key, i]));
+
+    records.forEach(r => {
+        if (r.exercise !== exercise) return;
+        const i = index.get(dayKey(startOf(new Date(r.date), period)));
+        if (i !== undefined) buckets[i].total += recordValue(r);
+    });
+    return buckets;
+};
+
+export interface Streaks {
+    current: number;    // Consecutive days ending today (or yesterday, if today is still open)
+    longest: number;
+}
+
+// Any exercise counts towards the streak
+export const computeStreaks = (records: WorkoutRecord[], now = new Date()): Streaks => {
+    const days = new Set(records.filter(r => recordValue(r) > 0).map(r => dayKey(new Date(r.date))));
+    if (days.size === 0) return { current: 0, longest: 0 };
+
+    const sorted = [...days].sort();
+    let longest = 1;
+    let run = 1;
+    for (let i = 1; i < sorted.length; i++) {
+        const prev = new Date(sorted[i - 1] + 'T00:00:00');
+        run = dayKey(step(prev, 'day', 1)) === sorted[i] ? run + 1 : 1;
+        longest = Math.max(longest, run);
+    }
+
+    let cursor = startOf(now, 'day');
+    if (!days.has(dayKey(cursor))) cursor = step(cursor, 'day', -1);
+    let current = 0;
+    while (days.has(dayKey(cursor))) {
+        current++;
+        cursor = step(cursor, 'day', -1);
+    }
+
+    return { current, longest };
+};
+
+export interface PersonalBests {
+    mostInSession: number;
+    // Quickest run of 50 consecutive reps, from sessions with per-rep timings
+    fastest50Sec: number | null;
+    bestPace: number | null;    // Reps per minute
+}
+
+// From the start of one rep to the end of the 50th after it, in ms; null under 50 reps
+const fastest50Ms = (reps: RepTiming[]): number | null => {
+    let best: number | null = null;
+    for (let i = 0; i + 50 <= reps.length; i++) {
+        const first = reps[i];
+        const startMs = first.atMs - first.eccentricMs - first.concentricMs;
+        const ms = reps[i + 49].atMs - startMs;
+        if (best === null || ms < best) best = ms;
+    }
+    return best;
+};
+
+export const repsPerMinute = (r: WorkoutRecord) => (r.durationSec > 0 ? r.count / (r.durationSec / 60) : 0);
+
+export const personalBests = (records: WorkoutRecord[], exercise: ExerciseType): PersonalBests => {
+    const mine = records.filter(r => r.exercise === exercise);
+    const isHold = getExercise(exercise).kind === 'hold';
+    const fifties = isHold ? [] : mine.flatMap(r => fastest50Ms(r.reps ?? []) ?? []);
+    const paced = isHold ? [] : mine.filter(r => r.count > 0 && r.durationSec > 0);
+
+    return {
+        mostInSession: mine.reduce((best, r) => Math.max(best, recordValue(r)), 0),
+        fastest50Sec: fifties.length > 0 ? Math.round(Math.min(...fifties) / 1000) : null,
+        bestPace: paced.length > 0 ? Math.max(...paced.map(repsPerMinute)) : null,
+    };
+};
+
+// Reps per minute per session, oldest first
+export const paceTrend = (records: WorkoutRecord[], exercise: ExerciseType, limit = 30): number[] =>
+    records
+        .filter(r => r.exercise === exercise && r.count > 0 && r.durationSec > 0)
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .slice(-limit)
+        .map(repsPerMinute);
+
+// ─── Per-rep tempo ───
+// From a single session's RepTiming list (WorkoutRecord.reps).
+
+export const REP_WINDOW_SEC = 30;
+
+export interface RepWindow {
+    startSec: number;
+    reps: number;
+    partial: boolean;   // The set ended partway through this window
+}
+
+// Reps finished in each REP_WINDOW_SEC slice of the workout
+export const repsPerWindow = (reps: RepTiming[], durationSec: number): RepWindow[] => {
+    const count = Math.max(1, Math.ceil(durationSec / REP_WINDOW_SEC));
+    const windows: RepWindow[] = Array.from({ length: count }, (_, i) => ({
+        startSec: i * REP_WINDOW_SEC,
+        reps: 0,
+        partial: (i + 1) * REP_WINDOW_SEC > durationSec,
+    }));
+    reps.forEach(r => {
+        windows[Math.min(count - 1, Math.floor(r.atMs / 1000 / REP_WINDOW_SEC))].reps++;
+    });
+    return windows;
+};
+
+export interface Fatigue {
+    firstWindow: number;    // Reps in the first full window
+    lastWindow: number;     // Reps in the last full window
+    dropPercent: number;    // How far the rate fell, 0 if it held or rose
+    tempoChangePercent: number | null;  // Last third's average rep time against the first third's, + is slower
+}
+
+// Null until there are two full windows to compare
+export const fatigueOf = (reps: RepTiming[], durationSec: number): Fatigue | null => {
+    const full = repsPerWindow(reps, durationSec).filter(w => !w.partial);
+    if (full.length < 2) return null;
+    const firstWindow = full[0].reps;
+    const lastWindow = full[full.length - 1].reps;
+
+    const third = Math.floor(reps.length / 3);
+    const average = (rs: RepTiming[]) => rs.reduce((s, r) => s + r.eccentricMs + r.concentricMs, 0) / rs.length;
+    const tempoChangePercent = third > 0
+        ? Math.round((average(reps.slice(-third)) / average(reps.slice(0, third)) - 1) * 100)
+        : null;
+
+    return {
+        firstWindow,
+        lastWindow,
+        dropPercent: firstWindow > 0 ? Math.max(0, Math.round((1 - lastWindow / firstWindow) * 100)) : 0,
+        tempoChangePercent,
+    };
+};
@@ -0,0 +1,133 @@
+import WebApp from '@twa-dev/sdk';
+import type { ExerciseType } from './exercises';
+import { importWorkouts, type ImportSummary, type NewWorkoutRecord } from './history';
+import { validateRecord } from './historyTransfer';
+import type { Leaderboard, LeaderboardPeriod } from './leaderboard';
+import { startOf } from './stats';
+
+// ─── Server sync ───
+// Workouts are always saved to IndexedDB first; the API (server/) is a best-effort
+// mirror. Offline or failed submissions wait in a localStorage queue for the next flush.
+
+const QUEUE_KEY = 'pushup_sync_queue';
+
+const apiUrl = (): string | null => import.meta.env.VITE_API_URL || null;
+
+// Raw signed initData — the server verifies it, so only available inside Telegram
+const getInitData = (): string | null => {
+    try {
+        return WebApp.initData || null;
+    } catch {
+        return null;
+    }
+};
+
+export const isSyncEnabled = () => apiUrl() !== null && getInitData() !== null;
+
+// Offline launches (served by the service worker) skip straight to the queue
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const request = async (path: string, init: RequestInit = {}) => {
+    const res = await fetch(`${apiUrl()}${path}`, {
+        ...init,
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `tma ${getInitData()}`,
+            ...init.headers,
+        },
+    });
+    if (!res.ok) throw new Error(`API ${res.status}`);
+    return res.json();
+};
+
+const readQueue = (): NewWorkoutRecord[] => {
+    try {
+        return JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const writeQueue = (queue: NewWorkoutRecord[]) => {
+    if (queue.length > 0) localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    else localStorage.removeItem(QUEUE_KEY);
+};
+
+const postWorkout = (record: NewWorkoutRecord) => {
+    // The server takes identity from initData, so userId/userName stay local
+    const body: Partial<NewWorkoutRecord> = { ...record };
+    delete body.userId;
+    delete body.userName;
+    return request('/api/workouts', { method: 'POST', body: JSON.stringify(body) });
+};
+
+// Never throws — a failed submission is queued instead
+export const syncWorkout = async (record: NewWorkoutRecord): Promise<void> => {
+    if (!isSyncEnabled()) return;
+    if (isOffline()) {
+        writeQueue([...readQueue(), record]);
+        return;
+    }
+    try {
+        await postWorkout(record);
+    } catch {
+        writeQueue([...readQueue(), record]);
+    }
+};
+
+// Resend queued workouts; anything that still fails stays queued
+export const flushSyncQueue = async (): Promise<number> => {
+    if (!isSyncEnabled() || isOffline()) return 0;
+    const queue = readQueue();
+    const failed: NewWorkoutRecord[] = [];
+    for (const record of queue) {
+        try {
+            await postWorkout(record);
+        } catch {
+            failed.push(record);
+        }
+    }
+    writeQueue(failed);
+    return queue.length - failed.length;
+};
+
+// Merge the user's server-side history (e.g. from another device) into IndexedDB.
+// The server stores what clients send, so each workout is validated like an import;
+// server-only fields (chatScope, receivedAt) aren't copied.
+export const pullRemoteHistory = async (): Promise<ImportSummary | null> => {
+    if (!isSyncEnabled()) return null;
+    const { workouts } = await request('/api/workouts') as { workouts: unknown[] };
+    const records = workouts.flatMap(w => {
+        if (!w || typeof w !== 'object') return [];
+        try {
+            return validateRecord(w as Record<string, unknown>) ?? [];
+        } catch {
+            // Saved by a newer version of the app — leave it for that version
+            return [];
+        }
+    });
+    return importWorkouts(records);
+};
+
+export interface ChatLeaderboard extends Leaderboard {
+    scoped: boolean;        // False when the app wasn't opened from a group chat
+}
+
+export const fetchLeaderboard = async (
+    exercise: ExerciseType,
+    period: LeaderboardPeriod,
+): Promise<ChatLeaderboard> => {
+    const params = new URLSearchParams({ exercise });
+    if (period !== 'all') params.set('since', startOf(new Date(), period).toISOString());
+    return request(`/api/leaderboard?${params}`) as Promise<ChatLeaderboard>;
+};
+
+// Telegram stories need a public URL for the image; the API hosts it for a day
+export const uploadStoryMedia = async (file: File): Promise<string> => {
+    const { url } = await request('/api/story-media', {
+        method: 'POST',
+        headers: { 'Content-Type': file.type },
+        body: file,
+    }) as { url: string };
+    return url;
+};
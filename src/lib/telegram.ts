@@ -0,0 +1,111 @@
+import { useEffect, useRef } from 'react';
+import WebApp from '@twa-dev/sdk';
+
+// ─── Native Telegram Mini App chrome ───
+// MainButton / BackButton / HapticFeedback when running inside Telegram. Outside it
+// (plain browser, local dev) every helper is a no-op and the hooks return false, so
+// callers keep rendering their own buttons.
+
+// initData is only filled in when Telegram launched the app
+export const isTelegramApp = () => {
+    try {
+        return Boolean(WebApp.initData);
+    } catch {
+        return false;
+    }
+};
+
+const supports = (version: string) => isTelegramApp() && WebApp.isVersionAtLeast(version);
+
+// ─── Theme ───
+// telegram-web-apps.js mirrors themeParams into --tg-theme-* CSS variables (and keeps
+// them current on themeChanged); the fallbacks are the app's own dark/neon palette.
+export const theme = {
+    bg: 'var(--tg-theme-bg-color, #0f172a)',
+    bgSecondary: 'var(--tg-theme-secondary-bg-color, #1e293b)',
+    text: 'var(--tg-theme-text-color, white)',
+    hint: 'var(--tg-theme-hint-color, #94a3b8)',
+    link: 'var(--tg-theme-link-color, #38bdf8)',
+    accent: 'var(--tg-theme-button-color, #39ff14)',
+    accentText: 'var(--tg-theme-button-text-color, black)',
+    destructive: 'var(--tg-theme-destructive-text-color, #ef4444)',
+} as const;
+
+// ─── Haptics ───
+
+export const hapticImpact = (style: 'light' | 'medium' | 'heavy' | 'rigid' | 'soft' = 'medium') => {
+    if (supports('6.1')) WebApp.HapticFeedback.impactOccurred(style);
+};
+
+export const hapticNotify = (type: 'error' | 'success' | 'warning') => {
+    if (supports('6.1')) WebApp.HapticFeedback.notificationOccurred(type);
+};
+
+// ─── Stories ───
+// Telegram fetches the media itself, so it must be a public https URL (see uploadStoryMedia)
+
+export const canShareToStory = () => supports('7.8');
+
+export const shareToStory = (mediaUrl: string, text?: string) => {
+    WebApp.shareToStory(mediaUrl, text ? { text } : undefined);
+};
+
+// ─── Buttons ───
+// Only one screen owns each button at a time. Pass null to leave it alone — the
+// previous owner's cleanup hides it, so a child screen can claim it in the same commit.
+
+export interface MainButtonOptions {
+    text: string;
+    onClick: () => void;
+    destructive?: boolean;
+}
+
+// Returns true when the native MainButton is showing instead of a custom one
+export const useMainButton = (options: MainButtonOptions | null): boolean => {
+    const native = isTelegramApp();
+    const onClickRef = useRef(options?.onClick);
+    useEffect(() => { onClickRef.current = options?.onClick; });
+
+    const text = options?.text ?? null;
+    const destructive = options?.destructive ?? false;
+    useEffect(() => {
+        if (!native || text === null) return;
+        const handler = () => onClickRef.current?.();
+        WebApp.MainButton.setParams({
+            text,
+            is_visible: true,
+            is_active: true,
+            // Undefined keeps Telegram's button_color / button_text_color
+            color: destructive ? WebApp.themeParams.destructive_text_color ?? '#ef4444' : WebApp.themeParams.button_color,
+            text_color: destructive ? '#ffffff' : WebApp.themeParams.button_text_color,
+        });
+        WebApp.MainButton.onClick(handler);
+        return () => {
+            WebApp.MainButton.offClick(handler);
+            WebApp.MainButton.hide();
+        };
+    }, [native, text, destructive]);
+
+    return native && text !== null;
+};
+
+// Returns true when the native BackButton is showing instead of a custom one
+export const useBackButton = (onBack: (() => void) | null): boolean => {
+    const native = supports('6.1');
+    const onBackRef = useRef(onBack);
+    useEffect(() => { onBackRef.current = onBack; });
+
+    const enabled = onBack !== null;
+    useEffect(() => {
+        if (!native || !enabled) return;
+        const handler = () => onBackRef.current?.();
+        WebApp.BackButton.onClick(handler);
+        WebApp.BackButton.show();
+        return () => {
+            WebApp.BackButton.offClick(handler);
+            WebApp.BackButton.hide();
+        };
+    }, [native, enabled]);
+
+    return native && enabled;
+};
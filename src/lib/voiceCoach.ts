@@ -0,0 +1,157 @@
+// ─── Voice Coach ───
+// Speaks rep counts, position cues, countdowns and milestones with the Web Speech API,
+// so the HUD doesn't have to be read from the floor. Where speech synthesis is missing
+// (some Telegram WebViews ship it with no voices) or the coach is switched off, every
+// call plays the matching beep instead.
+//
+// Only one utterance plays at a time:
+//   high   — countdown, milestones: interrupts anything lower
+//   normal — rep counts, hold seconds: waits, and only the newest survives ("7" replaces "6")
+//   low    — position cues: dropped while anything is speaking, and each distinct
+//            cue is repeated at most every `cueRepeatMs`
+
+export type CoachPriority = 'high' | 'normal' | 'low';
+
+export type CoachBeep = 'rep' | 'milestone' | 'noRep' | 'warning' | 'countdown' | 'go' | 'rest';
+
+export interface VoiceCoachOptions {
+    enabled: boolean;
+    fallback: Record<CoachBeep, () => void>;
+    lang?: string;
+    rate?: number;
+    cueRepeatMs?: number;
+}
+
+export interface VoiceCoach {
+    setEnabled: (enabled: boolean) => void;
+    // BCP 47 tag for the voice, e.g. "ru"; follows the UI language
+    setLang: (lang: string) => void;
+    // Call from a user gesture — iOS only allows speech after one
+    unlock: () => void;
+    // Rep counts and hold seconds
+    progress: (text: string) => void;
+    cue: (text: string) => void;
+    countdown: (secondsLeft: number) => void;
+    // Milestones, "Go!", "Rest" — spoken at high priority, or the given beep
+    announce: (text: string, beep: CoachBeep) => void;
+    cancel: () => void;
+}
+
+export const isSpeechAvailable = () =>
+    typeof window !== 'undefined'
+    && 'speechSynthesis' in window
+    && typeof SpeechSynthesisUtterance !== 'undefined'
+    && window.speechSynthesis.getVoices().length > 0;
+
+// Status strings carry emoji for the HUD; speech engines read those out by name
+const speakable = (text: string) =>
+    text.replace(/\p{Extended_Pictographic}|\uFE0F/gu, '').replace(/\s+/g, ' ').trim();
+
+const RANK: Record<CoachPriority, number> = { low: 0, normal: 1, high: 2 };
+
+export const createVoiceCoach = (options: VoiceCoachOptions): VoiceCoach => {
+    const { fallback, rate = 1.1, cueRepeatMs = 6000 } = options;
+    let enabled = options.enabled;
+    let lang = options.lang;
+    let voicesReady = isSpeechAvailable();
+
+    // Voices load asynchronously in Chrome; until then we beep
+    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
+        window.speechSynthesis.addEventListener('voiceschanged', () => { voicesReady = isSpeechAvailable(); });
+    }
+
+    let current: { id: number; priority: CoachPriority } | null = null;
+    let pending: { text: string; priority: CoachPriority } | null = null;
+    let nextId = 0;
+    let watchdog: ReturnType<typeof setTimeout> | null = null;
+    const lastCue = new Map<string, number>();
+
+    const canSpeak = () => enabled && voicesReady;
+
+    const cancelAll = () => {
+        pending = null;
+        current = null;
+        if (watchdog) clearTimeout(watchdog);
+        if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+    };
+
+    const finish = (id: number) => {
+        if (current?.id !== id) return;     // A cancelled utterance reporting late
+        current = null;
+        if (watchdog) clearTimeout(watchdog);
+        if (pending) {
+            const next = pending;
+            pending = null;
+            speakNow(next.text, next.priority);
+        }
+    };
+
+    const speakNow = (text: string, priority: CoachPriority) => {
+        const id = ++nextId;
+        const utterance = new SpeechSynthesisUtterance(text);
+        utterance.rate = rate;
+        if (lang) utterance.lang = lang;
+        utterance.onend = () => finish(id);
+        utterance.onerror = () => finish(id);
+        current = { id, priority };
+        // Some engines never fire onend — don't stay "busy" forever
+        if (watchdog) clearTimeout(watchdog);
+        watchdog = setTimeout(() => finish(id), 1500 + text.length * 120);
+        window.speechSynthesis.speak(utterance);
+    };
+
+    const say = (text: string, priority: CoachPriority, beep: CoachBeep) => {
+        if (!canSpeak()) {
+            fallback[beep]();
+            return;
+        }
+        const clean = speakable(text);
+        if (!clean) return;
+
+        if (!current) {
+            speakNow(clean, priority);
+        } else if (priority === 'high' && current.priority !== 'high') {
+            pending = null;
+            current = null;
+            window.speechSynthesis.cancel();
+            speakNow(clean, priority);
+        } else if (priority !== 'low' && (!pending || RANK[priority] >= RANK[pending.priority])) {
+            pending = { text: clean, priority };
+        }
+        // Low-priority cues are simply dropped while busy
+    };
+
+    return {
+        setEnabled: (value) => {
+            enabled = value;
+            if (!value) cancelAll();
+        },
+        setLang: (value) => { lang = value; },
+        unlock: () => {
+            if (!enabled || !('speechSynthesis' in window)) return;
+            voicesReady = isSpeechAvailable();
+            const silent = new SpeechSynthesisUtterance('');
+            silent.volume = 0;
+            window.speechSynthesis.speak(silent);
+        },
+        progress: (text) => say(text, 'normal', 'rep'),
+        cue: (text) => {
+            const now = Date.now();
+            if (now - (lastCue.get(text) ?? -Infinity) < cueRepeatMs) return;
+            // Only count it as said if it actually could be
+            if (current && canSpeak()) return;
+            lastCue.set(text, now);
+            say(text, 'low', 'warning');
+        },
+        countdown: (secondsLeft) => {
+            // Beeps every second; speech only for the final five, so it isn't a wall of numbers
+            if (!canSpeak()) {
+                fallback.countdown();
+            } else if (secondsLeft <= 5) {
+                say(String(secondsLeft), 'high', 'countdown');
+            }
+        },
+        announce: (text, beep) => say(text, 'high', beep),
+        cancel: cancelAll,
+    };
+};
@@ -0,0 +1,211 @@
+import { t } from './i18n';
+
+// ─── Workout Modes ───
+// Structured sessions layered on top of the open-ended rep counter. The tracker
+// is driven by elapsed time + current rep count, so it holds no timers itself.
+
+export type WorkoutMode =
+    | { kind: 'open' }
+    | { kind: 'amrap'; capSec: number }
+    | { kind: 'emom'; minutes: number; repsPerMinute: number }
+    | { kind: 'tabata'; rounds: number; workSec: number; restSec: number }
+    | { kind: 'target'; reps: number };
+
+export interface ModeInterval {
+    index: number;
+    kind: 'work' | 'rest';
+    startSec: number;
+    endSec: number;
+    target?: number;        // Reps required in this interval (EMOM)
+}
+
+export interface IntervalResult extends ModeInterval {
+    reps: number;
+    met?: boolean;          // Only set when the interval had a target
+}
+
+export type ModeEvent =
+    | { type: 'interval-start'; interval: ModeInterval }
+    | { type: 'interval-warning'; secondsLeft: number }
+    | { type: 'finished' };
+
+export interface ModeView {
+    title: string;          // e.g. "EMOM 4/10"
+    clock: string;          // Remaining time in the interval / session, or elapsed
+    detail: string | null;  // e.g. "6/10 reps"
+    resting: boolean;
+}
+
+export const MODE_PRESETS: WorkoutMode[] = [
+    { kind: 'open' },
+    { kind: 'amrap', capSec: 300 },
+    { kind: 'amrap', capSec: 600 },
+    { kind: 'emom', minutes: 10, repsPerMinute: 10 },
+    { kind: 'tabata', rounds: 8, workSec: 20, restSec: 10 },
+    { kind: 'target', reps: 50 },
+    { kind: 'target', reps: 100 },
+];
+
+export const describeMode = (mode: WorkoutMode): string => {
+    switch (mode.kind) {
+        case 'open': return t('mode.open');
+        case 'amrap': return t('mode.amrap', { min: Math.round(mode.capSec / 60) });
+        case 'emom': return t('mode.emom', { minutes: mode.minutes, reps: mode.repsPerMinute });
+        case 'tabata': return t('mode.tabata', { rounds: mode.rounds, work: mode.workSec, rest: mode.restSec });
+        case 'target': return t('mode.firstTo', { reps: mode.reps });
+    }
+};
+
+// Short chip label for the mode picker
+export const presetLabel = (mode: WorkoutMode): string => {
+    switch (mode.kind) {
+        case 'amrap': return t('mode.amrapChip', { min: Math.round(mode.capSec / 60) });
+        case 'tabata': return t('mode.tabataChip');
+        default: return describeMode(mode);
+    }
+};
+
+const WARNING_SECONDS = 3;
+
+// Fixed schedule for time-boxed modes. Open and target sessions have no end
+// time, so they're split into one-minute intervals as they go.
+export const buildIntervals = (mode: WorkoutMode): ModeInterval[] | null => {
+    switch (mode.kind) {
+        case 'amrap':
+            return Array.from({ length: Math.ceil(mode.capSec / 60) }, (_, i) => ({
+                index: i, kind: 'work' as const,
+                startSec: i * 60, endSec: Math.min((i + 1) * 60, mode.capSec),
+            }));
+        case 'emom':
+            return Array.from({ length: mode.minutes }, (_, i) => ({
+                index: i, kind: 'work' as const,
+                startSec: i * 60, endSec: (i + 1) * 60, target: mode.repsPerMinute,
+            }));
+        case 'tabata': {
+            const period = mode.workSec + mode.restSec;
+            return Array.from({ length: mode.rounds * 2 }, (_, i) => {
+                const round = Math.floor(i / 2);
+                const work = i % 2 === 0;
+                const startSec = round * period + (work ? 0 : mode.workSec);
+                return {
+                    index: i, kind: work ? 'work' as const : 'rest' as const,
+                    startSec, endSec: startSec + (work ? mode.workSec : mode.restSec),
+                };
+            });
+        }
+        default:
+            return null;
+    }
+};
+
+export const formatClock = (sec: number) => {
+    const s = Math.max(0, Math.ceil(sec));
+    return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export interface ModeTracker {
+    tick: (elapsedMs: number, count: number) => { events: ModeEvent[]; view: ModeView };
+    // Per-interval rep totals up to `elapsedMs`
+    getBreakdown: (elapsedMs: number, count: number) => IntervalResult[];
+}
+
+export const createModeTracker = (mode: WorkoutMode): ModeTracker => {
+    const schedule = buildIntervals(mode);
+    const totalSec = schedule ? schedule[schedule.length - 1].endSec : Infinity;
+
+    // Rep count when each interval began
+    const countAtStart: number[] = [];
+    let current = -1;
+    let lastWarning = -1;
+    let finished = false;
+
+    const intervalAt = (sec: number): ModeInterval => {
+        if (schedule) {
+            return schedule.find(iv => sec < iv.endSec) ?? schedule[schedule.length - 1];
+        }
+        const index = Math.floor(sec / 60);
+        return { index, kind: 'work', startSec: index * 60, endSec: (index + 1) * 60 };
+    };
+
+    const tick = (elapsedMs: number, count: number) => {
+        const events: ModeEvent[] = [];
+        const sec = elapsedMs / 1000;
+        const interval = intervalAt(sec);
+
+        while (current < interval.index) {
+            current++;
+            countAtStart[current] = count;
+            lastWarning = -1;
+            if (current === interval.index && schedule) {
+                events.push({ type: 'interval-start', interval });
+            }
+        }
+
+        const intervalLeft = interval.endSec - sec;
+        if (schedule && intervalLeft <= WARNING_SECONDS && intervalLeft > 0) {
+            const secondsLeft = Math.ceil(intervalLeft);
+            if (secondsLeft !== lastWarning) {
+                lastWarning = secondsLeft;
+                events.push({ type: 'interval-warning', secondsLeft });
+            }
+        }
+
+        if (!finished && (sec >= totalSec || (mode.kind === 'target' && count >= mode.reps))) {
+            finished = true;
+            events.push({ type: 'finished' });
+        }
+
+        const intervalReps = count - (countAtStart[interval.index] ?? count);
+        let view: ModeView;
+        switch (mode.kind) {
+            case 'amrap':
+                view = { title: t('mode.amrapTitle'), clock: formatClock(totalSec - sec), detail: null, resting: false };
+                break;
+            case 'emom':
+                view = {
+                    title: t('mode.emomMinute', { minute: interval.index + 1, minutes: mode.minutes }),
+                    clock: formatClock(intervalLeft),
+                    detail: t('results.intervalReps', {
+                        count: mode.repsPerMinute,
+                        value: `${Math.min(intervalReps, mode.repsPerMinute)}/${mode.repsPerMinute}`,
+                    }),
+                    resting: intervalReps >= mode.repsPerMinute,
+                };
+                break;
+            case 'tabata':
+                view = {
+                    title: `${t(interval.kind === 'work' ? 'mode.work' : 'mode.rest')} ${Math.floor(interval.index / 2) + 1}/${mode.rounds}`,
+                    clock: formatClock(intervalLeft),
+                    detail: null,
+                    resting: interval.kind === 'rest',
+                };
+                break;
+            case 'target':
+                view = { title: t('mode.firstTo', { reps: mode.reps }), clock: formatClock(sec), detail: `${count}/${mode.reps}`, resting: false };
+                break;
+            default:
+                view = { title: '', clock: formatClock(sec), detail: null, resting: false };
+        }
+
+        return { events, view };
+    };
+
+    const getBreakdown = (elapsedMs: number, count: number): IntervalResult[] => {
+        const sec = elapsedMs / 1000;
+        const results: IntervalResult[] = [];
+        for (let i = 0; i <= current; i++) {
+            const interval = schedule?.[i] ?? { index: i, kind: 'work' as const, startSec: i * 60, endSec: (i + 1) * 60 };
+            const end = i < current ? countAtStart[i + 1] : count;
+            const reps = end - countAtStart[i];
+            results.push({
+                ...interval,
+                endSec: Math.min(interval.endSec, Math.round(sec)),
+                reps,
+                ...(interval.target !== undefined ? { met: reps >= interval.target } : {}),
+            });
+        }
+        return results;
+    };
+
+    return { tick, getBreakdown };
+};
@@ -0,0 +1,180 @@
+import { t } from './i18n';
+
+// ─── Workout Recorder ───
+// Optional video of the workout: the mirrored camera feed, the skeleton overlay and a
+// small HUD are composited onto one canvas and captured with MediaRecorder.
+//
+// MediaRecorder output can't be trimmed without re-encoding, so a highlight keeps
+// two overlapping recorders, restarting one every `lastSec` seconds. At the end,
+// the older one holds between lastSec and 2 × lastSec of the workout's tail.
+
+export type RecordingMode =
+    | { kind: 'off' }
+    | { kind: 'full'; maxSec: number | null }   // Whole workout, optionally capped
+    | { kind: 'highlight'; lastSec: number };   // Roughly the last N seconds
+
+export const RECORDING_PRESETS: RecordingMode[] = [
+    { kind: 'off' },
+    { kind: 'full', maxSec: null },
+    { kind: 'full', maxSec: 60 },
+    { kind: 'highlight', lastSec: 15 },
+];
+
+export const recordingLabel = (mode: RecordingMode): string => {
+    switch (mode.kind) {
+        case 'off': return t('idle.recordOff');
+        case 'full': return mode.maxSec ? t('idle.recordCapped', { sec: mode.maxSec }) : t('idle.recordFull');
+        case 'highlight': return t('idle.recordHighlight', { sec: mode.lastSec });
+    }
+};
+
+export const isRecordingSupported = () =>
+    typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+// MP4 first: it's what iOS records, and what Instagram and Telegram take without converting
+const MIME_TYPES = ['video/mp4;codecs=avc1', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const CAPTURE_FPS = 30;
+const VIDEO_BITS_PER_SECOND = 2_500_000;
+const CHUNK_MS = 1000;
+
+export interface RecorderHud {
+    headline: string;   // Rep count, or the time held
+    status: string;
+}
+
+export interface RecorderSources {
+    video: HTMLVideoElement;
+    getOverlay: () => CanvasImageSource | null;    // Skeleton frame from the pose pipeline
+    mirrored: boolean;      // Front camera: the page shows the video flipped
+}
+
+export interface WorkoutRecorder {
+    setHud: (hud: RecorderHud) => void;
+    // Resolves with the clip, or null if nothing was recorded
+    stop: () => Promise<File | null>;
+    cancel: () => void;
+}
+
+interface Segment {
+    recorder: MediaRecorder;
+    chunks: Blob[];
+    ended?: Promise<Blob>;
+}
+
+const drawHud = (ctx: CanvasRenderingContext2D, width: number, height: number, { headline, status }: RecorderHud) => {
+    const unit = height / 480;
+    ctx.textAlign = 'center';
+    ctx.lineJoin = 'round';
+
+    ctx.font = `900 ${Math.round(72 * unit)}px system-ui, sans-serif`;
+    ctx.lineWidth = 6 * unit;
+    ctx.strokeStyle = 'rgba(0,0,0,0.6)';
+    ctx.fillStyle = '#39ff14';
+    ctx.strokeText(headline, width / 2, 84 * unit);
+    ctx.fillText(headline, width / 2, 84 * unit);
+
+    if (status) {
+        ctx.font = `bold ${Math.round(18 * unit)}px system-ui, sans-serif`;
+        ctx.lineWidth = 4 * unit;
+        ctx.fillStyle = 'white';
+        ctx.strokeText(status, width / 2, height - 40 * unit);
+        ctx.fillText(status, width / 2, height - 40 * unit);
+    }
+
+    ctx.textAlign = 'right';
+    ctx.font = `bold ${Math.round(12 * unit)}px system-ui, sans-serif`;
+    ctx.fillStyle = 'rgba(57,255,20,0.8)';
+    ctx.fillText(t('app.name').toUpperCase(), width - 10 * unit, height - 10 * unit);
+};
+
+export const startRecording = (mode: Exclude<RecordingMode, { kind: 'off' }>, { video, getOverlay, mirrored }: RecorderSources): WorkoutRecorder => {
+    const canvas = document.createElement('canvas');
+    // Fixed before capture starts — some encoders fail if the size changes mid-clip
+    canvas.width = video.videoWidth || 640;
+    canvas.height = video.videoHeight || 480;
+    const ctx = canvas.getContext('2d')!;
+    let hud: RecorderHud = { headline: '', status: '' };
+
+    let frameId = 0;
+    const drawFrame = () => {
+        frameId = requestAnimationFrame(drawFrame);
+        const { width, height } = canvas;
+        // The page mirrors a front camera's video with CSS; bake the same flip into the clip.
+        // The overlay is already drawn the way it's shown.
+        ctx.save();
+        if (mirrored) {
+            ctx.translate(width, 0);
+            ctx.scale(-1, 1);
+        }
+        ctx.drawImage(video, 0, 0, width, height);
+        ctx.restore();
+        const overlay = getOverlay();
+        if (overlay) ctx.drawImage(overlay, 0, 0, width, height);
+        drawHud(ctx, width, height, hud);
+    };
+    drawFrame();
+
+    const stream = canvas.captureStream(CAPTURE_FPS);
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+    const record = (): Segment => {
+        const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+        const segment: Segment = { recorder, chunks: [] };
+        recorder.ondataavailable = (e) => {
+            if (e.data.size > 0) segment.chunks.push(e.data);
+        };
+        recorder.start(CHUNK_MS);
+        return segment;
+    };
+
+    const end = (segment: Segment) => segment.ended ??= new Promise<Blob>(resolve => {
+        segment.recorder.onstop = () => resolve(new Blob(segment.chunks, { type: segment.recorder.mimeType }));
+        segment.recorder.stop();
+    });
+
+    // Oldest first; only a highlight ever has two
+    const segments: Segment[] = [record()];
+    let rotateTimer: ReturnType<typeof setInterval> | null = null;
+    let capTimer: ReturnType<typeof setTimeout> | null = null;
+    if (mode.kind === 'highlight') {
+        rotateTimer = setInterval(() => {
+            segments.push(record());
+            if (segments.length > 2) void end(segments.shift()!);
+        }, mode.lastSec * 1000);
+    } else if (mode.maxSec) {
+        capTimer = setTimeout(() => {
+            cancelAnimationFrame(frameId);
+            void end(segments[0]);
+        }, mode.maxSec * 1000);
+    }
+
+    const cleanup = () => {
+        cancelAnimationFrame(frameId);
+        if (rotateTimer) clearInterval(rotateTimer);
+        if (capTimer) clearTimeout(capTimer);
+    };
+
+    const stop = async (): Promise<File | null> => {
+        cleanup();
+        const [clip, ...rest] = segments;
+        rest.forEach(segment => void end(segment));
+        const blob = await end(clip);
+        stream.getTracks().forEach(track => track.stop());
+        if (blob.size === 0) return null;
+        // Share targets match on the bare type, without the codecs parameter
+        const type = blob.type.split(';')[0] || 'video/webm';
+        return new File([blob], `workout-video.${type === 'video/mp4' ? 'mp4' : 'webm'}`, { type });
+    };
+
+    const cancel = () => {
+        cleanup();
+        segments.forEach(segment => void end(segment));
+        stream.getTracks().forEach(track => track.stop());
+    };
+
+    return {
+        setHud: (next) => { hud = next; },
+        stop,
+        cancel,
+    };
+};
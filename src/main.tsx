@@ -3,8 +3,10 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import WebApp from '@twa-dev/sdk'
+import { registerServiceWorker } from './lib/serviceWorker'
 
 WebApp.ready();
+registerServiceWorker();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
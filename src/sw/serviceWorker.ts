@@ -0,0 +1,69 @@
+// ─── Service Worker ───
+// Precaches the app shell, the self-hosted MediaPipe model/WASM and the images on
+// install, so a second launch works with no network. Built to /sw.js by plugins/pwa.ts,
+// which replaces the two placeholders below.
+//
+//   navigations         — network first (refreshing the cached index.html), the cached one offline
+//   same-origin GETs    — cache first, anything new is cached as it's fetched
+//   other origins (API) — untouched; sync.ts queues workouts while offline
+
+declare const self: ServiceWorkerGlobalScope;
+declare const __PRECACHE_MANIFEST__: string[];
+declare const __CACHE_VERSION__: string;
+
+const CACHE_PREFIX = 'pushup-pro-';
+const CACHE_NAME = `${CACHE_PREFIX}${__CACHE_VERSION__}`;
+const PRECACHE = __PRECACHE_MANIFEST__;
+
+// Manifest paths are relative to the site root, which is the worker's scope
+const scoped = (path: string) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(CACHE_NAME);
+        await cache.addAll(PRECACHE.map(scoped));
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names
+            .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+            .map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+// The app is one page, so whatever a navigation returns is the newest app shell
+const navigate = async (request: Request) => {
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            const cache = await caches.open(CACHE_NAME);
+            await cache.put(scoped('index.html'), response.clone());
+        }
+        return response;
+    } catch {
+        const shell = await caches.match(scoped('index.html'));
+        return shell ?? Response.error();
+    }
+};
+
+const cacheFirst = async (request: Request) => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) {
+        const cache = await caches.open(CACHE_NAME);
+        await cache.put(request, response.clone());
+    }
+    return response;
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+    event.respondWith(request.mode === 'navigate' ? navigate(request) : cacheFirst(request));
+});
@@ -1,7 +1,10 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { mediapipeAssets, serviceWorker } from './plugins/pwa'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mediapipeAssets(), serviceWorker()],
+  // The pose worker is a module worker and imports the Tasks WASM loader dynamically
+  worker: { format: 'es' },
 })
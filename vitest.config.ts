@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config'
+
+// Separate from vite.config.ts so tests don't load the app's build plugins
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts', 'server/**/*.test.ts'],
+  },
+})